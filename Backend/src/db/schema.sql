@@ -9,6 +9,8 @@ CREATE TABLE IF NOT EXISTS users (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     email VARCHAR(255) UNIQUE,
     api_key_hash VARCHAR(255) UNIQUE NOT NULL,
+    api_key_revoked_at TIMESTAMPTZ,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC', -- IANA name; scheduled rules run on this calendar
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -21,6 +23,12 @@ CREATE TABLE IF NOT EXISTS plaid_items (
     access_token_encrypted TEXT NOT NULL,
     institution_id VARCHAR(255),
     institution_name VARCHAR(255),
+    transactions_cursor TEXT,
+    last_synced_at TIMESTAMPTZ,
+    status VARCHAR(20) NOT NULL DEFAULT 'healthy',
+    error_code VARCHAR(100),
+    status_updated_at TIMESTAMPTZ,
+    consent_expires_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -62,6 +70,7 @@ CREATE TABLE IF NOT EXISTS transactions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     plaid_transaction_id VARCHAR(255),
+    plaid_item_id VARCHAR(255),
     account_id VARCHAR(255) NOT NULL,
     merchant_name VARCHAR(255),
     amount DECIMAL(12,2) NOT NULL,
@@ -69,8 +78,14 @@ CREATE TABLE IF NOT EXISTS transactions (
     category JSONB,
     description TEXT,
     is_pending BOOLEAN DEFAULT false,
+    source VARCHAR(20) NOT NULL DEFAULT 'plaid', -- 'plaid' or 'import' (CSV/OFX statement)
+    import_hash VARCHAR(64), -- stable row hash of statement imports, for dedupe
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        to_tsvector('simple', COALESCE(merchant_name, '') || ' ' || COALESCE(description, ''))
+    ) STORED,
     created_at TIMESTAMPTZ DEFAULT NOW(),
-    CONSTRAINT unique_plaid_transaction UNIQUE (plaid_transaction_id)
+    CONSTRAINT unique_plaid_transaction UNIQUE (plaid_transaction_id),
+    CONSTRAINT unique_import_hash UNIQUE (user_id, import_hash)
 );
 
 -- Transaction Splits (transaction -> bucket mappings)
@@ -100,23 +115,714 @@ CREATE TABLE IF NOT EXISTS allocation_events (
 CREATE TABLE IF NOT EXISTS events (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    client_event_id VARCHAR(255),
     event_type VARCHAR(50) NOT NULL,
+    schema_version INT NOT NULL DEFAULT 1,
     timestamp TIMESTAMPTZ NOT NULL,
-    sequence BIGSERIAL,
+    sequence BIGSERIAL, -- assigned by events_assign_sequence, in commit order per user
     payload JSONB NOT NULL,
     device_id VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    -- Client-supplied id makes pushEvents retries idempotent
+    CONSTRAINT unique_client_event UNIQUE (user_id, client_event_id)
+);
+
+-- Projection checkpoints (last events.sequence applied to the relational tables, per user)
+CREATE TABLE IF NOT EXISTS projection_checkpoints (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    last_sequence BIGINT NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Events the projector rejected (e.g. a row id owned by another user); the
+-- checkpoint moves past them only once they are recorded here
+CREATE TABLE IF NOT EXISTS projection_failures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    sequence BIGINT NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    error TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_projection_failure UNIQUE (event_id)
+);
+
+-- Scheduled rule runs (one per user, trigger and period; the unique key keeps restarts from re-funding)
+CREATE TABLE IF NOT EXISTS rule_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    trigger_type VARCHAR(50) NOT NULL, -- 'scheduledDaily', 'scheduledWeekly', 'scheduledMonthly'
+    period VARCHAR(10) NOT NULL, -- local date (daily), date of the week's Sunday (weekly) or YYYY-MM (monthly)
+    run_date DATE NOT NULL, -- local date in time_zone of the latest run
+    time_zone VARCHAR(64) NOT NULL, -- the zone the period was started in
+    status VARCHAR(20) NOT NULL DEFAULT 'running', -- 'running', 'completed', 'failed'
+    run_number INT NOT NULL DEFAULT 1, -- incremented when rules due later in the period run
+    rule_ids JSONB NOT NULL DEFAULT '[]', -- rules that have run in the period
+    fired_rules JSONB NOT NULL DEFAULT '[]', -- latest run's [{ rule_id, rule_name }]
+    allocations JSONB, -- latest run's proposals, stored before their events are appended
+    total DECIMAL(12, 2),
+    error TEXT,
+    started_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    CONSTRAINT unique_rule_run UNIQUE (user_id, trigger_type, period)
+);
+
+-- Results of POST /rules/run by idempotency key, returned as is when the request is retried
+CREATE TABLE IF NOT EXISTS rule_run_requests (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    idempotency_key VARCHAR(255) NOT NULL,
+    result JSONB NOT NULL, -- { available_funds, proposals, allocations, total }, stored before its events are appended
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, idempotency_key)
+);
+
+-- Month closes (rollover/reset processing, one row per user and month)
+CREATE TABLE IF NOT EXISTS month_closes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    month CHAR(7) NOT NULL, -- YYYY-MM, in time_zone
+    time_zone VARCHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running', -- 'running', 'completed', 'failed'
+    run_number INT NOT NULL DEFAULT 1, -- incremented by each re-run
+    adjustments JSONB, -- latest run's allocations, stored before their events are appended
+    applied JSONB NOT NULL DEFAULT '{}', -- { bucket_id: net amount } from all completed runs
+    error TEXT,
+    started_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    CONSTRAINT unique_month_close UNIQUE (user_id, month)
+);
+
+-- Merchant mapping rules (auto-categorize imported transactions by merchant name)
+-- bucket_id has no foreign key: rebuilding the projection deletes and recreates
+-- buckets, which must not take the mappings with it. bucket_deleted removes them.
+CREATE TABLE IF NOT EXISTS merchant_mapping_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    merchant_contains VARCHAR(255) NOT NULL, -- case-insensitive substring of the merchant name
+    bucket_id UUID NOT NULL,
+    priority INT NOT NULL DEFAULT 5, -- lower = higher priority
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- AI copilot sessions (multi-turn conversations)
+CREATE TABLE IF NOT EXISTS ai_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title VARCHAR(255), -- the session's first command, shortened
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ -- set when deleted while it still has applied turns
+);
+
+-- AI copilot turns: a command and the actions proposed for it
+CREATE TABLE IF NOT EXISTS ai_session_turns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES ai_sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    command TEXT NOT NULL,
+    summary TEXT,
+    actions JSONB NOT NULL DEFAULT '[]', -- proposed actions, each with a server-assigned id
+    warnings JSONB NOT NULL DEFAULT '[]',
+    action_outcomes JSONB NOT NULL DEFAULT '{}', -- { action_id: 'accepted' | 'rejected' }
+    context JSONB, -- budget the actions were validated against, to detect stale proposals
+    applied_events JSONB NOT NULL DEFAULT '{}', -- { action_id: [events.client_event_id] } once applied
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_events_user_timestamp ON events(user_id, timestamp, sequence);
+CREATE INDEX IF NOT EXISTS idx_events_user_sequence ON events(user_id, sequence);
+CREATE INDEX IF NOT EXISTS idx_projection_failures_user ON projection_failures(user_id, sequence);
 CREATE INDEX IF NOT EXISTS idx_transactions_user_date ON transactions(user_id, date DESC);
 CREATE INDEX IF NOT EXISTS idx_transactions_plaid_id ON transactions(plaid_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_plaid_item ON transactions(plaid_item_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_search ON transactions USING GIN (search_vector);
 CREATE INDEX IF NOT EXISTS idx_splits_transaction ON transaction_splits(transaction_id);
 CREATE INDEX IF NOT EXISTS idx_splits_bucket ON transaction_splits(bucket_id);
 CREATE INDEX IF NOT EXISTS idx_allocations_user_bucket ON allocation_events(user_id, bucket_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_allocations_bucket ON allocation_events(bucket_id);
 CREATE INDEX IF NOT EXISTS idx_rules_user_enabled ON funding_rules(user_id, enabled, priority);
 CREATE INDEX IF NOT EXISTS idx_plaid_items_user ON plaid_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_rule_runs_user_date ON rule_runs(user_id, run_date DESC);
+CREATE INDEX IF NOT EXISTS idx_merchant_mappings_user ON merchant_mapping_rules(user_id, priority);
+CREATE INDEX IF NOT EXISTS idx_ai_sessions_user_updated ON ai_sessions(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_session_turns_session ON ai_session_turns(session_id, created_at);
+
+-- Functions
+
+-- Gives each new event its sequence under a per-user lock held until the
+-- transaction ends. A user's events therefore commit in sequence order: once a
+-- reader sees sequence N it sees every lower sequence of that user, so a
+-- sequence cursor (pullEvents, the projector) can't step past a row that
+-- commits later. The column default's value is discarded.
+CREATE OR REPLACE FUNCTION assign_event_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtextextended('events:' || NEW.user_id::TEXT, 0));
+    NEW.sequence := nextval(pg_get_serial_sequence('events', 'sequence'));
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS events_assign_sequence ON events;
+CREATE TRIGGER events_assign_sequence
+    BEFORE INSERT ON events
+    FOR EACH ROW EXECUTE FUNCTION assign_event_sequence();
+
+-- Clears a user's projected state so the projector can replay from sequence zero
+CREATE OR REPLACE FUNCTION reset_projection(p_user_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    DELETE FROM transaction_splits
+    WHERE transaction_id IN (SELECT id FROM transactions WHERE user_id = p_user_id);
+    DELETE FROM allocation_events WHERE user_id = p_user_id;
+    DELETE FROM funding_rules WHERE user_id = p_user_id;
+    DELETE FROM buckets WHERE user_id = p_user_id;
+    DELETE FROM projection_checkpoints WHERE user_id = p_user_id;
+    DELETE FROM projection_failures WHERE user_id = p_user_id;
+END;
+$$;
+
+-- Replaces all splits of a transaction in one statement-level transaction
+-- p_splits: [{ "id"?: uuid, "bucketId": uuid | null, "amount": number }]
+-- With p_enforce_balances, fails (check_violation) if the change takes a bucket
+-- without allow_negative below zero (an overspent one may still be edited, as
+-- long as it doesn't get worse). The buckets are locked first, so concurrent
+-- edits are checked one after the other.
+CREATE OR REPLACE FUNCTION replace_transaction_splits(
+    p_transaction_id UUID,
+    p_splits JSONB,
+    p_enforce_balances BOOLEAN DEFAULT FALSE
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_previous JSONB;
+    v_bucket RECORD;
+BEGIN
+    IF p_enforce_balances THEN
+        PERFORM 1
+        FROM buckets
+        WHERE id IN (
+            SELECT bucket_id FROM transaction_splits WHERE transaction_id = p_transaction_id
+            UNION
+            SELECT (s->>'bucketId')::UUID FROM jsonb_array_elements(p_splits) AS s
+        )
+        ORDER BY id
+        FOR UPDATE;
+
+        SELECT COALESCE(jsonb_object_agg(bucket_id, total), '{}')
+        INTO v_previous
+        FROM (
+            SELECT bucket_id, SUM(amount) AS total
+            FROM transaction_splits
+            WHERE transaction_id = p_transaction_id AND bucket_id IS NOT NULL
+            GROUP BY bucket_id
+        ) previous;
+    END IF;
+
+    DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+    INSERT INTO transaction_splits (id, transaction_id, bucket_id, amount)
+    SELECT
+        COALESCE((s->>'id')::UUID, uuid_generate_v4()),
+        p_transaction_id,
+        (s->>'bucketId')::UUID,
+        (s->>'amount')::DECIMAL(12,2)
+    FROM jsonb_array_elements(p_splits) AS s;
+
+    IF p_enforce_balances THEN
+        FOR v_bucket IN
+            SELECT b.name, bb.assigned + bb.activity AS available
+            FROM (
+                SELECT bucket_id, SUM(amount) AS delta
+                FROM (
+                    SELECT bucket_id, amount
+                    FROM transaction_splits
+                    WHERE transaction_id = p_transaction_id AND bucket_id IS NOT NULL
+                    UNION ALL
+                    SELECT key::UUID, -(value::DECIMAL(12,2))
+                    FROM jsonb_each_text(v_previous)
+                ) changes
+                GROUP BY bucket_id
+            ) deltas
+            JOIN buckets b ON b.id = deltas.bucket_id
+            JOIN bucket_balances bb ON bb.bucket_id = b.id
+            WHERE deltas.delta < 0
+              AND NOT b.allow_negative
+              AND bb.assigned + bb.activity < 0
+        LOOP
+            RAISE EXCEPTION 'Bucket "%" would go negative (%) and does not allow negative balances',
+                v_bucket.name, v_bucket.available
+                USING ERRCODE = 'check_violation';
+        END LOOP;
+    END IF;
+END;
+$$;
+
+-- Applies accepted AI copilot actions in one transaction: appends their events,
+-- creates their merchant mappings and records them on the turns that proposed them
+-- p_events: [{ "clientEventId", "eventType", "timestamp", "payload" }], in log order
+-- p_merchant_mappings: [{ "id", "merchantContains", "bucketId", "priority"? }]
+-- p_turns: [{ "id", "outcomes": { action_id: "accepted" }, "applied": { action_id: [client_event_id] } }]
+-- p_balances_as_of: the events.sequence the projected balances the actions were
+-- checked against include; the batch fails (serialization_failure) if money
+-- moved in the log after it. NULL when no action depends on a balance.
+-- Fails with unique_violation if an action was already applied, and with
+-- no_data_found if a turn's session is gone.
+CREATE OR REPLACE FUNCTION apply_ai_actions(
+    p_user_id UUID,
+    p_events JSONB,
+    p_merchant_mappings JSONB,
+    p_turns JSONB,
+    p_balances_as_of BIGINT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_locked INT;
+BEGIN
+    -- Concurrent applies of the same turns wait here, then see each other's applied_events
+    SELECT COUNT(*)
+    INTO v_locked
+    FROM (
+        SELECT t.id
+        FROM ai_session_turns t
+        JOIN ai_sessions s ON s.id = t.session_id AND s.deleted_at IS NULL
+        WHERE t.user_id = p_user_id
+          AND t.id IN (SELECT (u->>'id')::UUID FROM jsonb_array_elements(p_turns) AS u)
+        FOR UPDATE OF t
+    ) locked;
+
+    IF v_locked < jsonb_array_length(p_turns) THEN
+        RAISE EXCEPTION 'Session not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_turns) AS u
+        JOIN ai_session_turns t ON t.id = (u->>'id')::UUID
+        WHERE t.applied_events ?| ARRAY(SELECT jsonb_object_keys(u->'applied'))
+    ) THEN
+        RAISE EXCEPTION 'Some actions were already applied' USING ERRCODE = 'unique_violation';
+    END IF;
+
+    IF p_balances_as_of IS NOT NULL THEN
+        -- One balance-dependent apply per user at a time, so each sees the last one's events
+        PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+        IF EXISTS (
+            SELECT 1
+            FROM events
+            WHERE user_id = p_user_id
+              AND sequence > p_balances_as_of
+              AND event_type IN (
+                  'allocation_made', 'allocation', 'transaction_split_set', 'bucket_deleted',
+                  'transaction_imported', 'transaction_removed', 'plaid_item_removed'
+              )
+        ) THEN
+            RAISE EXCEPTION 'Balances changed since they were checked' USING ERRCODE = 'serialization_failure';
+        END IF;
+    END IF;
+
+    INSERT INTO events (user_id, client_event_id, event_type, timestamp, payload, device_id)
+    SELECT
+        p_user_id,
+        e->>'clientEventId',
+        e->>'eventType',
+        (e->>'timestamp')::TIMESTAMPTZ,
+        e->'payload',
+        'server'
+    FROM jsonb_array_elements(p_events) WITH ORDINALITY AS x(e, n)
+    ORDER BY n;
+
+    INSERT INTO merchant_mapping_rules (id, user_id, merchant_contains, bucket_id, priority)
+    SELECT
+        (m->>'id')::UUID,
+        p_user_id,
+        m->>'merchantContains',
+        (m->>'bucketId')::UUID,
+        COALESCE((m->>'priority')::INT, 5)
+    FROM jsonb_array_elements(p_merchant_mappings) AS m;
+
+    UPDATE ai_session_turns t
+    SET action_outcomes = t.action_outcomes || (u->'outcomes'),
+        applied_events = t.applied_events || (u->'applied')
+    FROM jsonb_array_elements(p_turns) AS u
+    WHERE t.id = (u->>'id')::UUID
+      AND t.user_id = p_user_id;
+END;
+$$;
+
+-- Records whether the user accepted or rejected AI copilot actions, merging
+-- into each turn's action_outcomes so concurrent updates don't overwrite each other.
+-- p_turns: [{ "id", "outcomes": { action_id: "accepted" | "rejected" } }]
+-- Fails with unique_violation if an applied action would be marked rejected,
+-- and with no_data_found if a turn's session is gone.
+CREATE OR REPLACE FUNCTION record_ai_action_outcomes(p_user_id UUID, p_turns JSONB)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_locked INT;
+BEGIN
+    -- Waits for a concurrent apply of the same turns, then sees its applied_events
+    SELECT COUNT(*)
+    INTO v_locked
+    FROM (
+        SELECT t.id
+        FROM ai_session_turns t
+        JOIN ai_sessions s ON s.id = t.session_id AND s.deleted_at IS NULL
+        WHERE t.user_id = p_user_id
+          AND t.id IN (SELECT (u->>'id')::UUID FROM jsonb_array_elements(p_turns) AS u)
+        FOR UPDATE OF t
+    ) locked;
+
+    IF v_locked < jsonb_array_length(p_turns) THEN
+        RAISE EXCEPTION 'Session not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_turns) AS u
+        JOIN ai_session_turns t ON t.id = (u->>'id')::UUID
+        CROSS JOIN jsonb_each_text(u->'outcomes') AS o(action_id, outcome)
+        WHERE t.applied_events ? o.action_id
+          AND o.outcome <> 'accepted'
+    ) THEN
+        RAISE EXCEPTION 'Applied actions cannot be rejected' USING ERRCODE = 'unique_violation';
+    END IF;
+
+    UPDATE ai_session_turns t
+    SET action_outcomes = t.action_outcomes || (u->'outcomes')
+    FROM jsonb_array_elements(p_turns) AS u
+    WHERE t.id = (u->>'id')::UUID
+      AND t.user_id = p_user_id;
+END;
+$$;
+
+-- Deletes an AI copilot session. Turns with applied actions are kept, and the
+-- session with them (marked deleted), so every event the copilot made can
+-- still be traced to its command. Returns false if the user has no such session.
+CREATE OR REPLACE FUNCTION delete_ai_session(p_user_id UUID, p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE ai_sessions
+    SET deleted_at = NOW()
+    WHERE id = p_session_id AND user_id = p_user_id AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    DELETE FROM ai_session_turns
+    WHERE session_id = p_session_id AND applied_events = '{}'::JSONB;
+
+    DELETE FROM ai_sessions
+    WHERE id = p_session_id
+      AND NOT EXISTS (SELECT 1 FROM ai_session_turns WHERE session_id = p_session_id);
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Per-bucket ledger totals (mirrors iOS BucketLedgerService)
+-- assigned = sum of allocations, activity = sum of transaction splits
+CREATE OR REPLACE VIEW bucket_balances AS
+SELECT
+    b.id AS bucket_id,
+    b.user_id,
+    COALESCE((SELECT SUM(a.amount) FROM allocation_events a WHERE a.bucket_id = b.id), 0) AS assigned,
+    COALESCE((SELECT SUM(s.amount) FROM transaction_splits s WHERE s.bucket_id = b.id), 0) AS activity
+FROM buckets b;
+
+-- Transactions with split-derived columns for filtering (GET /transactions)
+CREATE OR REPLACE VIEW transaction_search AS
+SELECT
+    t.id,
+    t.user_id,
+    t.plaid_transaction_id,
+    t.plaid_item_id,
+    t.account_id,
+    t.merchant_name,
+    t.amount,
+    ABS(t.amount) AS abs_amount,
+    t.date,
+    t.category,
+    t.description,
+    t.is_pending,
+    t.search_vector,
+    t.created_at,
+    COALESCE((
+        SELECT array_agg(DISTINCT s.bucket_id)
+        FROM transaction_splits s
+        WHERE s.transaction_id = t.id
+          AND s.bucket_id IS NOT NULL
+    ), '{}') AS bucket_ids,
+    NOT EXISTS (
+        SELECT 1
+        FROM transaction_splits s
+        WHERE s.transaction_id = t.id
+          AND s.bucket_id IS NOT NULL
+    ) AS is_uncategorized
+FROM transactions t;
+
+-- Allocation and spend entries behind each bucket's balance, newest first
+CREATE OR REPLACE VIEW bucket_ledger_entries AS
+SELECT
+    a.id,
+    a.user_id,
+    a.bucket_id,
+    'allocation'::TEXT AS entry_type,
+    a.amount,
+    a.timestamp AS occurred_at,
+    a.source_type,
+    a.source_id,
+    NULL::UUID AS transaction_id,
+    NULL::VARCHAR(255) AS merchant_name
+FROM allocation_events a
+WHERE a.bucket_id IS NOT NULL
+UNION ALL
+SELECT
+    s.id,
+    t.user_id,
+    s.bucket_id,
+    'spend'::TEXT AS entry_type,
+    s.amount,
+    t.date::TIMESTAMPTZ AS occurred_at,
+    NULL AS source_type,
+    NULL AS source_id,
+    t.id AS transaction_id,
+    t.merchant_name
+FROM transaction_splits s
+JOIN transactions t ON t.id = s.transaction_id
+WHERE s.bucket_id IS NOT NULL;
+
+-- Unassigned = income (excluding transfers/payments) - net allocations to buckets
+CREATE OR REPLACE FUNCTION unassigned_balance(p_user_id UUID)
+RETURNS DECIMAL(12,2)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        COALESCE((
+            SELECT SUM(t.amount)
+            FROM transactions t
+            WHERE t.user_id = p_user_id
+              AND t.amount > 0
+              AND NOT (
+                  COALESCE(t.category::TEXT, '') ILIKE ANY (ARRAY['%transfer%', '%payment%'])
+                  OR COALESCE(t.merchant_name, t.description, '') ILIKE ANY (ARRAY['%transfer%', '%payment%'])
+              )
+        ), 0)
+        - COALESCE((
+            SELECT SUM(a.amount)
+            FROM allocation_events a
+            WHERE a.user_id = p_user_id
+              AND a.bucket_id IS NOT NULL
+        ), 0);
+$$;
+
+-- Per-bucket totals as of a month boundary: allocations before p_cutoff,
+-- splits of transactions dated before p_cutoff_date (the local date of p_cutoff)
+CREATE OR REPLACE FUNCTION bucket_balances_as_of(p_user_id UUID, p_cutoff TIMESTAMPTZ, p_cutoff_date DATE)
+RETURNS TABLE (bucket_id UUID, assigned DECIMAL(12,2), activity DECIMAL(12,2))
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        b.id,
+        COALESCE((
+            SELECT SUM(a.amount)
+            FROM allocation_events a
+            WHERE a.bucket_id = b.id
+              AND a.timestamp < p_cutoff
+        ), 0),
+        COALESCE((
+            SELECT SUM(s.amount)
+            FROM transaction_splits s
+            JOIN transactions t ON t.id = s.transaction_id
+            WHERE s.bucket_id = b.id
+              AND t.date < p_cutoff_date
+        ), 0)
+    FROM buckets b
+    WHERE b.user_id = p_user_id;
+$$;
+
+-- Spending per bucket on transactions dated p_start_date or later, net of
+-- refunds, as a positive amount (splits are signed like their transaction)
+CREATE OR REPLACE FUNCTION bucket_spending_since(p_user_id UUID, p_start_date DATE)
+RETURNS TABLE (bucket_id UUID, spent DECIMAL(12,2))
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT s.bucket_id, -SUM(s.amount)
+    FROM transaction_splits s
+    JOIN transactions t ON t.id = s.transaction_id
+    WHERE t.user_id = p_user_id
+      AND t.date >= p_start_date
+      AND s.bucket_id IS NOT NULL
+    GROUP BY s.bucket_id;
+$$;
+
+-- Merchants with the most spending since p_start_date, transfers and card
+-- payments excluded (as in unassigned_balance)
+CREATE OR REPLACE FUNCTION top_merchants_since(p_user_id UUID, p_start_date DATE, p_limit INT)
+RETURNS TABLE (merchant TEXT, spent DECIMAL(12,2), transaction_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(t.merchant_name, t.description), -SUM(t.amount), COUNT(*)
+    FROM transactions t
+    WHERE t.user_id = p_user_id
+      AND t.date >= p_start_date
+      AND t.amount < 0
+      AND COALESCE(t.merchant_name, t.description) IS NOT NULL
+      AND NOT (
+          COALESCE(t.category::TEXT, '') ILIKE ANY (ARRAY['%transfer%', '%payment%'])
+          OR COALESCE(t.merchant_name, t.description, '') ILIKE ANY (ARRAY['%transfer%', '%payment%'])
+      )
+    GROUP BY COALESCE(t.merchant_name, t.description)
+    ORDER BY SUM(t.amount) ASC
+    LIMIT p_limit;
+$$;
+
+-- Restores an archive into an empty account in one transaction (POST /import/archive)
+-- p_reserved_ids: { "transactions": [uuid], "buckets": [uuid], "funding_rules": [uuid],
+--   "allocation_events": [uuid], "transaction_splits": [uuid] }: every id the archive's
+--   rows and events create; none may exist yet, in any account
+-- p_transactions, p_events (in log order), p_merchant_mapping_rules, p_month_closes:
+--   rows shaped like their tables, without user_id
+CREATE OR REPLACE FUNCTION restore_archive(
+    p_user_id UUID,
+    p_timezone TEXT,
+    p_reserved_ids JSONB,
+    p_transactions JSONB,
+    p_events JSONB,
+    p_merchant_mapping_rules JSONB,
+    p_month_closes JSONB
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_table TEXT;
+    v_taken BOOLEAN;
+BEGIN
+    -- Serializes restores into the same account
+    PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+    IF EXISTS (SELECT 1 FROM events WHERE user_id = p_user_id)
+        OR EXISTS (SELECT 1 FROM transactions WHERE user_id = p_user_id)
+        OR EXISTS (SELECT 1 FROM buckets WHERE user_id = p_user_id) THEN
+        RAISE EXCEPTION 'Archives can only be restored into an empty account'
+            USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+
+    FOREACH v_table IN ARRAY ARRAY['transactions', 'buckets', 'funding_rules', 'allocation_events', 'transaction_splits']
+    LOOP
+        EXECUTE format(
+            'SELECT EXISTS (SELECT 1 FROM %I WHERE id IN (SELECT jsonb_array_elements_text($1)::UUID))',
+            v_table
+        )
+        INTO v_taken
+        USING COALESCE(p_reserved_ids->v_table, '[]');
+
+        IF v_taken THEN
+            RAISE EXCEPTION 'Archive % already exist in this database; delete the original account first',
+                replace(v_table, '_', ' ')
+                USING ERRCODE = 'unique_violation';
+        END IF;
+    END LOOP;
+
+    IF p_timezone IS NOT NULL THEN
+        UPDATE users SET timezone = p_timezone, updated_at = NOW() WHERE id = p_user_id;
+    END IF;
+
+    INSERT INTO transactions (
+        id, user_id, plaid_transaction_id, plaid_item_id, account_id, merchant_name, amount, date,
+        category, description, is_pending, source, import_hash, created_at
+    )
+    SELECT
+        t.id, p_user_id, t.plaid_transaction_id, t.plaid_item_id, t.account_id, t.merchant_name, t.amount, t.date,
+        t.category, t.description, COALESCE(t.is_pending, false), COALESCE(t.source, 'plaid'), t.import_hash,
+        COALESCE(t.created_at, NOW())
+    FROM jsonb_populate_recordset(NULL::transactions, p_transactions) AS t;
+
+    -- Rows get their sequences in array order, so the log keeps its order
+    INSERT INTO events (user_id, client_event_id, event_type, schema_version, timestamp, payload, device_id)
+    SELECT p_user_id, e.client_event_id, e.event_type, COALESCE(e.schema_version, 1), e.timestamp, e.payload, e.device_id
+    FROM jsonb_populate_recordset(NULL::events, p_events) WITH ORDINALITY AS e
+    ORDER BY e.ordinality;
+
+    INSERT INTO merchant_mapping_rules (user_id, merchant_contains, bucket_id, priority)
+    SELECT p_user_id, r.merchant_contains, r.bucket_id, COALESCE(r.priority, 5)
+    FROM jsonb_populate_recordset(NULL::merchant_mapping_rules, p_merchant_mapping_rules) AS r;
+
+    INSERT INTO month_closes (
+        user_id, month, time_zone, status, run_number, adjustments, applied, started_at, completed_at
+    )
+    SELECT
+        p_user_id, c.month, c.time_zone, c.status, COALESCE(c.run_number, 1), c.adjustments,
+        COALESCE(c.applied, '{}'), COALESCE(c.started_at, NOW()), c.completed_at
+    FROM jsonb_populate_recordset(NULL::month_closes, p_month_closes) AS c;
+END;
+$$;
+
+-- Inserts the new rows of a statement import and appends a transaction_imported
+-- event for each, in one transaction, so a row is never stored without its
+-- event. Rows whose import_hash is already stored are skipped.
+-- p_rows: [{ "account_id", "merchant_name", "amount", "date", "description", "import_hash" }]
+-- Returns the inserted rows.
+CREATE OR REPLACE FUNCTION import_statement_transactions(p_user_id UUID, p_rows JSONB)
+RETURNS SETOF transactions
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH inserted AS (
+        INSERT INTO transactions (
+            user_id, account_id, merchant_name, amount, date, description, is_pending, source, import_hash
+        )
+        SELECT p_user_id, r.account_id, r.merchant_name, r.amount, r.date, r.description, FALSE, 'import', r.import_hash
+        FROM jsonb_populate_recordset(NULL::transactions, p_rows) WITH ORDINALITY AS r
+        ORDER BY r.ordinality
+        ON CONFLICT ON CONSTRAINT unique_import_hash DO NOTHING
+        RETURNING *
+    ),
+    logged AS (
+        -- Same payload as toTransactionEventPayload in transactionIngestion.ts
+        INSERT INTO events (user_id, event_type, timestamp, payload, device_id)
+        SELECT
+            p_user_id,
+            'transaction_imported',
+            NOW(),
+            jsonb_build_object(
+                'id', i.id,
+                'plaidTransactionId', i.plaid_transaction_id,
+                'accountId', i.account_id,
+                'merchantName', i.merchant_name,
+                'amount', i.amount,
+                'date', i.date,
+                'category', i.category,
+                'description', i.description,
+                'isPending', i.is_pending
+            ),
+            'server'
+        FROM inserted i
+        ORDER BY i.date, i.id
+    )
+    SELECT * FROM inserted;
+END;
+$$;
 
 -- Row Level Security (RLS) Policies
 -- Enable RLS on all tables
@@ -128,6 +834,14 @@ ALTER TABLE allocation_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE funding_rules ENABLE ROW LEVEL SECURITY;
 ALTER TABLE plaid_items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE projection_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE projection_failures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rule_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rule_run_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE month_closes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE merchant_mapping_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_session_turns ENABLE ROW LEVEL SECURITY;
 
 -- For now, allow all operations (you can restrict based on user_id later)
 -- In production, you'll want to create policies that match user_id from authenticated context
@@ -139,6 +853,14 @@ CREATE POLICY "Allow all operations" ON allocation_events FOR ALL USING (true);
 CREATE POLICY "Allow all operations" ON funding_rules FOR ALL USING (true);
 CREATE POLICY "Allow all operations" ON plaid_items FOR ALL USING (true);
 CREATE POLICY "Allow all operations" ON events FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON projection_checkpoints FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON projection_failures FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON rule_runs FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON rule_run_requests FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON month_closes FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON merchant_mapping_rules FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON ai_sessions FOR ALL USING (true);
+CREATE POLICY "Allow all operations" ON ai_session_turns FOR ALL USING (true);
 
 -- Note: In production, replace the above policies with proper user-based RLS:
 -- Example:
@@ -48,6 +48,23 @@ export const Tables = {
     FUNDING_RULES: 'funding_rules',
     PLAID_ITEMS: 'plaid_items',
     USERS: 'users',
+    PROJECTION_CHECKPOINTS: 'projection_checkpoints',
+    PROJECTION_FAILURES: 'projection_failures',
+    RULE_RUNS: 'rule_runs',
+    RULE_RUN_REQUESTS: 'rule_run_requests',
+    MONTH_CLOSES: 'month_closes',
+    MERCHANT_MAPPING_RULES: 'merchant_mapping_rules',
+    AI_SESSIONS: 'ai_sessions',
+    AI_SESSION_TURNS: 'ai_session_turns',
+} as const;
+
+/**
+ * Database views (read-only)
+ */
+export const Views = {
+    BUCKET_BALANCES: 'bucket_balances',
+    BUCKET_LEDGER_ENTRIES: 'bucket_ledger_entries',
+    TRANSACTION_SEARCH: 'transaction_search',
 } as const;
 
 /**
@@ -0,0 +1,254 @@
+/**
+ * Event Type Registry
+ * Versioned payload schemas for every event type in the sync log.
+ * Field names mirror the columns in schema.sql (camelCased, as the iOS app sends them).
+ */
+
+export type FieldType =
+    | 'string'
+    | 'uuid'
+    | 'number'
+    | 'integer'
+    | 'boolean'
+    | 'date'
+    | 'datetime'
+    | 'object'
+    | 'array';
+
+export interface FieldSpec {
+    type: FieldType;
+    required?: boolean;
+    nullable?: boolean;
+    enum?: readonly string[];
+    pattern?: RegExp;
+    maxLength?: number;
+    min?: number;
+    max?: number;
+    // For arrays of objects: the schema of each element
+    items?: Record<string, FieldSpec>;
+    // For objects: the schema of known keys
+    fields?: Record<string, FieldSpec>;
+}
+
+export interface EventSchema {
+    fields: Record<string, FieldSpec>;
+}
+
+export interface EventTypeDefinition {
+    // Schemas by version; events without a schemaVersion use version 1
+    versions: Record<number, EventSchema>;
+    // Emitted by the backend only; clients may not push these
+    serverOnly?: boolean;
+}
+
+export const TARGET_TYPES = ['none', 'monthlyTarget', 'byDateGoal'] as const;
+export const ROLLOVER_MODES = ['rollover', 'resetMonthly', 'cappedRollover'] as const;
+// rollover and reset are written by the month close, ai by applied copilot actions
+export const ALLOCATION_SOURCE_TYPES = ['manual', 'rule', 'import', 'rollover', 'reset', 'ai'] as const;
+export const TRIGGER_TYPES = [
+    'onIncomeDetected',
+    'scheduledDaily',
+    'scheduledWeekly',
+    'scheduledMonthly',
+    'manualRun',
+    'balanceThreshold',
+] as const;
+export const RULE_ACTION_TYPES = ['allocateFixed', 'allocatePercent', 'fillToTarget'] as const;
+
+const money: FieldSpec = { type: 'number' };
+
+export const bucketFields: Record<string, FieldSpec> = {
+    name: { type: 'string', maxLength: 255 },
+    icon: { type: 'string', maxLength: 50, nullable: true },
+    color: { type: 'string', pattern: /^#[0-9A-Fa-f]{6}$/, nullable: true },
+    targetType: { type: 'string', enum: TARGET_TYPES, nullable: true },
+    targetAmount: { ...money, nullable: true },
+    targetDate: { type: 'date', nullable: true },
+    priority: { type: 'integer', min: 1, max: 10 },
+    rolloverMode: { type: 'string', enum: ROLLOVER_MODES },
+    rolloverCap: { ...money, nullable: true },
+    allowNegative: { type: 'boolean' },
+};
+
+const allocationFields: Record<string, FieldSpec> = {
+    id: { type: 'uuid', required: true },
+    // null = Unassigned
+    bucketId: { type: 'uuid', nullable: true },
+    amount: { ...money, required: true },
+    sourceType: { type: 'string', enum: ALLOCATION_SOURCE_TYPES, required: true },
+    sourceId: { type: 'string', maxLength: 255, nullable: true },
+    timestamp: { type: 'datetime' },
+};
+
+export const ruleFields: Record<string, FieldSpec> = {
+    name: { type: 'string', maxLength: 255 },
+    enabled: { type: 'boolean' },
+    priority: { type: 'integer' },
+    triggerType: { type: 'string', enum: TRIGGER_TYPES },
+    conditions: {
+        type: 'object',
+        nullable: true,
+        fields: {
+            accountId: { type: 'string', nullable: true },
+            minAmount: { ...money, nullable: true },
+            merchantContains: { type: 'string', nullable: true },
+            dayOfMonth: { type: 'integer', min: 1, max: 31, nullable: true },
+            weekday: { type: 'integer', min: 1, max: 7, nullable: true },
+        },
+    },
+    actions: {
+        type: 'array',
+        items: {
+            type: { type: 'string', enum: RULE_ACTION_TYPES, required: true },
+            bucketId: { type: 'uuid', required: true },
+            amount: { ...money, min: 0 },
+            percent: { type: 'number', min: 0, max: 100 },
+        },
+    },
+};
+
+export function requireFields(
+    fields: Record<string, FieldSpec>,
+    names: string[]
+): Record<string, FieldSpec> {
+    const result = { ...fields };
+    for (const name of names) {
+        result[name] = { ...result[name], required: true };
+    }
+    return result;
+}
+
+export const EVENT_REGISTRY: Record<string, EventTypeDefinition> = {
+    bucket_created: {
+        versions: {
+            1: {
+                fields: {
+                    id: { type: 'uuid', required: true },
+                    ...requireFields(bucketFields, ['name']),
+                },
+            },
+        },
+    },
+    bucket_updated: {
+        versions: {
+            1: {
+                fields: {
+                    id: { type: 'uuid', required: true },
+                    ...bucketFields,
+                },
+            },
+        },
+    },
+    bucket_deleted: {
+        versions: {
+            1: { fields: { id: { type: 'uuid', required: true } } },
+        },
+    },
+    allocation_made: {
+        versions: {
+            1: { fields: allocationFields },
+        },
+    },
+    // Legacy name still sent by older iOS builds; same payload as allocation_made
+    allocation: {
+        versions: {
+            1: {
+                fields: {
+                    ...allocationFields,
+                    // iOS SourceType.import_ encodes its raw value as "import_"
+                    sourceType: {
+                        type: 'string',
+                        enum: [...ALLOCATION_SOURCE_TYPES, 'import_'],
+                        required: true,
+                    },
+                    sequence: { type: 'number' },
+                },
+            },
+        },
+    },
+    transaction_split_set: {
+        versions: {
+            1: {
+                fields: {
+                    transactionId: { type: 'uuid', required: true },
+                    // Replaces all splits of the transaction; empty = unassigned
+                    splits: {
+                        type: 'array',
+                        required: true,
+                        items: {
+                            id: { type: 'uuid' },
+                            bucketId: { type: 'uuid', nullable: true },
+                            amount: { ...money, required: true },
+                        },
+                    },
+                },
+            },
+        },
+    },
+    rule_created: {
+        versions: {
+            1: {
+                fields: {
+                    id: { type: 'uuid', required: true },
+                    ...requireFields(ruleFields, ['name', 'priority', 'triggerType', 'actions']),
+                },
+            },
+        },
+    },
+    rule_updated: {
+        versions: {
+            1: {
+                fields: {
+                    id: { type: 'uuid', required: true },
+                    ...ruleFields,
+                },
+            },
+        },
+    },
+    rule_deleted: {
+        versions: {
+            1: { fields: { id: { type: 'uuid', required: true } } },
+        },
+    },
+    transaction_imported: {
+        serverOnly: true,
+        versions: {
+            1: {
+                fields: {
+                    id: { type: 'uuid', required: true },
+                    plaidTransactionId: { type: 'string', nullable: true },
+                    accountId: { type: 'string', required: true },
+                    merchantName: { type: 'string', nullable: true },
+                    amount: { ...money, required: true },
+                    date: { type: 'date', required: true },
+                    category: { type: 'array', nullable: true },
+                    description: { type: 'string', nullable: true },
+                    isPending: { type: 'boolean' },
+                },
+            },
+        },
+    },
+    transaction_removed: {
+        serverOnly: true,
+        versions: {
+            1: {
+                fields: {
+                    id: { type: 'uuid', required: true },
+                    plaidTransactionId: { type: 'string', nullable: true },
+                },
+            },
+        },
+    },
+    plaid_item_removed: {
+        serverOnly: true,
+        versions: {
+            1: {
+                fields: {
+                    itemId: { type: 'string', required: true },
+                    accountIds: { type: 'array', required: true },
+                    transactionsPurged: { type: 'boolean', required: true },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,178 @@
+/**
+ * Event Validation
+ * Checks pushed events against the event registry before they enter the log
+ */
+
+import { EVENT_REGISTRY, FieldSpec } from './registry';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ValidatedEvent {
+    eventType: string;
+    schemaVersion: number;
+    payload: Record<string, any>;
+    timestamp: string;
+}
+
+export type EventValidationResult =
+    | { valid: true; event: ValidatedEvent }
+    | { valid: false; errors: string[] };
+
+/**
+ * Event types without a registry entry that may still be pushed
+ * (SYNC_ALLOWED_EVENT_TYPES, comma-separated; "*" allows any type)
+ */
+function allowedUnknownTypes(): Set<string> {
+    return new Set(
+        (process.env.SYNC_ALLOWED_EVENT_TYPES ?? '')
+            .split(',')
+            .map((type) => type.trim())
+            .filter((type) => type.length > 0)
+    );
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkType(value: unknown, spec: FieldSpec): boolean {
+    switch (spec.type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'uuid':
+            return typeof value === 'string' && UUID_PATTERN.test(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'date':
+            return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+        case 'datetime':
+            return typeof value === 'string' && !isNaN(Date.parse(value));
+        case 'object':
+            return isPlainObject(value);
+        case 'array':
+            return Array.isArray(value);
+    }
+}
+
+/**
+ * Validates an object against field specs; returns error messages prefixed with path
+ */
+export function validateFields(
+    value: Record<string, any>,
+    fields: Record<string, FieldSpec>,
+    path: string
+): string[] {
+    const errors: string[] = [];
+
+    for (const [name, spec] of Object.entries(fields)) {
+        const fieldPath = `${path}.${name}`;
+        const fieldValue = value[name];
+
+        if (fieldValue === undefined) {
+            if (spec.required) {
+                errors.push(`${fieldPath} is required`);
+            }
+            continue;
+        }
+
+        if (fieldValue === null) {
+            if (!spec.nullable) {
+                errors.push(`${fieldPath} must not be null`);
+            }
+            continue;
+        }
+
+        if (!checkType(fieldValue, spec)) {
+            errors.push(`${fieldPath} must be a valid ${spec.type}`);
+            continue;
+        }
+
+        if (spec.enum && !spec.enum.includes(fieldValue)) {
+            errors.push(`${fieldPath} must be one of: ${spec.enum.join(', ')}`);
+        }
+        if (spec.pattern && !spec.pattern.test(fieldValue)) {
+            errors.push(`${fieldPath} has an invalid format`);
+        }
+        if (spec.maxLength !== undefined && fieldValue.length > spec.maxLength) {
+            errors.push(`${fieldPath} must be at most ${spec.maxLength} characters`);
+        }
+        if (spec.min !== undefined && fieldValue < spec.min) {
+            errors.push(`${fieldPath} must be at least ${spec.min}`);
+        }
+        if (spec.max !== undefined && fieldValue > spec.max) {
+            errors.push(`${fieldPath} must be at most ${spec.max}`);
+        }
+
+        if (spec.fields) {
+            errors.push(...validateFields(fieldValue, spec.fields, fieldPath));
+        }
+        if (spec.items) {
+            fieldValue.forEach((item: unknown, index: number) => {
+                if (!isPlainObject(item)) {
+                    errors.push(`${fieldPath}[${index}] must be an object`);
+                    return;
+                }
+                errors.push(...validateFields(item, spec.items!, `${fieldPath}[${index}]`));
+            });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Validates a client-pushed event envelope and its payload
+ */
+export function validatePushedEvent(event: Record<string, any>): EventValidationResult {
+    const { eventType, payload, timestamp } = event;
+    const schemaVersion = event.schemaVersion ?? 1;
+
+    if (typeof eventType !== 'string' || eventType.trim().length === 0) {
+        return { valid: false, errors: ['eventType is required'] };
+    }
+    if (!isPlainObject(payload)) {
+        return { valid: false, errors: ['payload must be an object'] };
+    }
+    if (timestamp !== undefined && (typeof timestamp !== 'string' || isNaN(Date.parse(timestamp)))) {
+        return { valid: false, errors: ['timestamp must be an ISO 8601 date'] };
+    }
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 1) {
+        return { valid: false, errors: ['schemaVersion must be a positive integer'] };
+    }
+
+    const envelope: ValidatedEvent = {
+        eventType,
+        schemaVersion,
+        payload,
+        timestamp: timestamp ?? new Date().toISOString(),
+    };
+
+    const definition = EVENT_REGISTRY[eventType];
+    if (!definition) {
+        const allowed = allowedUnknownTypes();
+        if (allowed.has('*') || allowed.has(eventType)) {
+            return { valid: true, event: envelope };
+        }
+        return { valid: false, errors: [`Unknown event type: ${eventType}`] };
+    }
+
+    if (definition.serverOnly) {
+        return { valid: false, errors: [`${eventType} events can only be created by the server`] };
+    }
+
+    const schema = definition.versions[schemaVersion];
+    if (!schema) {
+        return {
+            valid: false,
+            errors: [`Unsupported schemaVersion ${schemaVersion} for ${eventType}`],
+        };
+    }
+
+    const errors = validateFields(payload, schema.fields, 'payload');
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, event: envelope };
+}
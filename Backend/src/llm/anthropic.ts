@@ -0,0 +1,50 @@
+/**
+ * Anthropic Provider
+ * Forces a propose_actions tool call through the Messages API; streaming
+ * yields the tool input's partial JSON as it arrives
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, LLMProviderError, PROPOSE_ACTIONS_TOOL, ProposeActionsRequest } from './types';
+
+export function createAnthropicProvider(): LLMProvider {
+    if (!process.env.ANTHROPIC_API_KEY) {
+        throw new LLMProviderError('ANTHROPIC_API_KEY is not set');
+    }
+
+    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    const model = process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022';
+
+    const params = ({ system, messages, maxTokens }: ProposeActionsRequest) => ({
+        model,
+        max_tokens: maxTokens,
+        system,
+        messages,
+        tools: [PROPOSE_ACTIONS_TOOL],
+        tool_choice: {
+            type: 'tool' as const,
+            name: PROPOSE_ACTIONS_TOOL.name,
+        },
+    });
+
+    return {
+        name: 'anthropic',
+        async proposeActions(request) {
+            const response = await anthropic.messages.create(params(request));
+
+            const toolBlock = response.content.find((block) => block.type === 'tool_use');
+            if (!toolBlock || toolBlock.type !== 'tool_use') {
+                throw new Error('AI response did not include tool output');
+            }
+            return toolBlock.input;
+        },
+        async *streamActions(request, signal) {
+            const stream = await anthropic.messages.create({ ...params(request), stream: true }, { signal });
+            for await (const event of stream) {
+                if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+                    yield event.delta.partial_json;
+                }
+            }
+        },
+    };
+}
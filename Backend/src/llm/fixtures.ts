@@ -0,0 +1,149 @@
+/**
+ * Fixture Replay Provider
+ * Answers from recorded responses instead of a model, so the copilot can run
+ * offline and in CI with deterministic output.
+ *
+ * Fixtures are JSON Lines: { "match"?: string, "response": <propose_actions input> }.
+ * The first fixture whose `match` occurs in the latest command (case-insensitive)
+ * is replayed; fixtures without `match` are the fallback. Set
+ * AI_FIXTURE_RECORD_PATH while using a real provider to record new fixtures.
+ */
+
+import fs from 'fs';
+import { ChatMessage, LLMProvider, LLMProviderError } from './types';
+
+// Replayed streams arrive in pieces this size, like a model's would
+const STREAM_CHUNK_LENGTH = 16;
+
+export interface ResponseFixture {
+    match?: string;
+    response: unknown;
+}
+
+/**
+ * The latest command of a conversation. The copilot sends it as JSON
+ * ({ command, context }); any other text is used as is.
+ */
+export function latestCommand(messages: ChatMessage[]): string {
+    const last = [...messages].reverse().find((message) => message.role === 'user');
+    if (!last) {
+        return '';
+    }
+    try {
+        const payload = JSON.parse(last.content);
+        return typeof payload?.command === 'string' ? payload.command : last.content;
+    } catch {
+        return last.content;
+    }
+}
+
+export function parseFixtures(text: string): ResponseFixture[] {
+    return text
+        .split('\n')
+        .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+        .filter(({ line }) => line.length > 0)
+        .map(({ line, number }) => {
+            let fixture: ResponseFixture;
+            try {
+                fixture = JSON.parse(line);
+            } catch {
+                throw new LLMProviderError(`Fixture line ${number} is not valid JSON`);
+            }
+            if (!fixture || typeof fixture !== 'object' || !('response' in fixture)) {
+                throw new LLMProviderError(`Fixture line ${number} has no response`);
+            }
+            return fixture;
+        });
+}
+
+/**
+ * Picks the fixture to replay for a command, or null if none applies. Pure.
+ */
+export function selectFixture(fixtures: ResponseFixture[], command: string): ResponseFixture | null {
+    const lower = command.toLowerCase();
+    return (
+        fixtures.find((fixture) => fixture.match !== undefined && lower.includes(fixture.match.toLowerCase())) ??
+        fixtures.find((fixture) => fixture.match === undefined) ??
+        null
+    );
+}
+
+export function createFixtureProvider(path: string | undefined = process.env.AI_FIXTURE_PATH): LLMProvider {
+    if (!path) {
+        throw new LLMProviderError('AI_FIXTURE_PATH is not set');
+    }
+
+    let fixtures: ResponseFixture[];
+    try {
+        fixtures = parseFixtures(fs.readFileSync(path, 'utf8'));
+    } catch (error) {
+        if (error instanceof LLMProviderError) {
+            throw error;
+        }
+        throw new LLMProviderError(`Cannot read AI fixtures from ${path}`);
+    }
+
+    const replay = (messages: ChatMessage[]) => {
+        const command = latestCommand(messages);
+        const fixture = selectFixture(fixtures, command);
+        if (!fixture) {
+            throw new Error(`No AI fixture matches "${command}"`);
+        }
+        return fixture.response;
+    };
+
+    return {
+        name: 'fixture',
+        async proposeActions({ messages }) {
+            return replay(messages);
+        },
+        async *streamActions({ messages }, signal) {
+            const response = replay(messages);
+            const text = typeof response === 'string' ? response : JSON.stringify(response);
+            for (let start = 0; start < text.length && !signal.aborted; start += STREAM_CHUNK_LENGTH) {
+                yield text.slice(start, start + STREAM_CHUNK_LENGTH);
+            }
+        },
+    };
+}
+
+/**
+ * Wraps a provider so every response is appended to `path` as a fixture,
+ * matched on the command that produced it. Streamed responses are recorded
+ * once complete.
+ */
+export function recordingProvider(provider: LLMProvider, path: string): LLMProvider {
+    const record = async (messages: ChatMessage[], response: unknown) => {
+        const fixture: ResponseFixture = { match: latestCommand(messages), response };
+        await fs.promises.appendFile(path, `${JSON.stringify(fixture)}\n`);
+    };
+
+    const recording: LLMProvider = {
+        name: provider.name,
+        async proposeActions(request) {
+            const response = await provider.proposeActions(request);
+            await record(request.messages, response);
+            return response;
+        },
+    };
+
+    const streamActions = provider.streamActions?.bind(provider);
+    if (streamActions) {
+        recording.streamActions = async function* (request, signal) {
+            let text = '';
+            for await (const fragment of streamActions(request, signal)) {
+                text += fragment;
+                yield fragment;
+            }
+            let response: unknown = text;
+            try {
+                response = JSON.parse(text);
+            } catch {
+                // Text answers are recorded as text
+            }
+            await record(request.messages, response);
+        };
+    }
+
+    return recording;
+}
@@ -0,0 +1,115 @@
+/**
+ * OpenAI-Compatible Provider
+ * Chat Completions with a forced propose_actions function call. Works with
+ * OpenAI and with local servers that speak the same API (OPENAI_BASE_URL,
+ * e.g. http://localhost:11434/v1 for Ollama). Models that ignore the tool and
+ * answer in text are passed through as text; parse.ts reads JSON out of it.
+ */
+
+import { LLMProvider, LLMProviderError, PROPOSE_ACTIONS_TOOL, ProposeActionsRequest } from './types';
+
+const REQUEST_TIMEOUT_MS = 60_000;
+
+export function createOpenAICompatibleProvider(): LLMProvider {
+    const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const apiKey = process.env.OPENAI_API_KEY;
+    // Local servers usually need no key; the hosted API does
+    if (!apiKey && baseUrl.startsWith('https://api.openai.com')) {
+        throw new LLMProviderError('OPENAI_API_KEY is not set');
+    }
+    const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+    const complete = async (
+        { system, messages, maxTokens }: ProposeActionsRequest,
+        stream: boolean,
+        signal: AbortSignal
+    ) => {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                max_tokens: maxTokens,
+                stream,
+                messages: [{ role: 'system', content: system }, ...messages],
+                tools: [
+                    {
+                        type: 'function',
+                        function: {
+                            name: PROPOSE_ACTIONS_TOOL.name,
+                            description: PROPOSE_ACTIONS_TOOL.description,
+                            parameters: PROPOSE_ACTIONS_TOOL.input_schema,
+                        },
+                    },
+                ],
+                tool_choice: { type: 'function', function: { name: PROPOSE_ACTIONS_TOOL.name } },
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new Error(`Chat completion failed (${response.status}): ${await response.text()}`);
+        }
+        return response;
+    };
+
+    return {
+        name: 'openai',
+        async proposeActions(request) {
+            const response = await complete(request, false, AbortSignal.timeout(REQUEST_TIMEOUT_MS));
+
+            const body = (await response.json()) as Record<string, any>;
+            const message = body.choices?.[0]?.message;
+            const toolCall = message?.tool_calls?.find(
+                (call: Record<string, any>) => call.function?.name === PROPOSE_ACTIONS_TOOL.name
+            );
+            if (toolCall) {
+                return toolCall.function.arguments;
+            }
+            if (typeof message?.content === 'string' && message.content.trim().length > 0) {
+                return message.content;
+            }
+            throw new Error('AI response did not include tool output');
+        },
+        async *streamActions(request, signal) {
+            const response = await complete(
+                request,
+                true,
+                AbortSignal.any([signal, AbortSignal.timeout(REQUEST_TIMEOUT_MS)])
+            );
+            if (!response.body) {
+                throw new Error('AI response has no body');
+            }
+
+            // Server-sent events: `data: <chunk JSON>` lines, ending with `data: [DONE]`
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffered = '';
+            for (;;) {
+                const { done, value } = await reader.read();
+                buffered += decoder.decode(value, { stream: !done });
+                const lines = buffered.split('\n');
+                buffered = done ? '' : lines.pop()!;
+
+                for (const line of lines) {
+                    const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+                    if (data.length === 0 || data === '[DONE]') {
+                        continue;
+                    }
+                    const delta = JSON.parse(data).choices?.[0]?.delta;
+                    // Tool arguments, or the text of a model answering without the tool
+                    const fragment = delta?.tool_calls?.[0]?.function?.arguments ?? delta?.content;
+                    if (typeof fragment === 'string' && fragment.length > 0) {
+                        yield fragment;
+                    }
+                }
+                if (done) {
+                    return;
+                }
+            }
+        },
+    };
+}
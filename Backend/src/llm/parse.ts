@@ -0,0 +1,159 @@
+/**
+ * Model Response Parsing
+ * Turns whatever a provider returned for propose_actions (tool input, or JSON
+ * text from models without tool calling) into a summary, warnings and
+ * normalized actions. Pure, so recorded responses can be replayed through it.
+ */
+
+import { AI_ACTION_TYPES } from '../services/aiActions';
+
+export interface AIAction {
+    type: string;
+    id?: string;
+    [key: string]: any;
+}
+
+export interface ParsedProposal {
+    summary: string;
+    actions: AIAction[];
+    // Warnings the model gave itself, if any
+    modelWarnings: string[] | undefined;
+    // Problems found while normalizing the actions
+    warnings: string[];
+}
+
+/**
+ * Parses a raw propose_actions response
+ */
+export function parseProposal(raw: unknown): ParsedProposal {
+    const parsed = coerceToolInput(raw);
+    const { normalized, warnings } = normalizeActions(resolveActions(parsed));
+    return {
+        summary: resolveSummary(parsed),
+        actions: normalized,
+        modelWarnings: resolveWarnings(parsed),
+        warnings,
+    };
+}
+
+export function coerceToolInput(input: unknown): Record<string, any> {
+    if (typeof input === 'string') {
+        try {
+            // Models answering in plain text (no tool call) often wrap the JSON in a code fence
+            return JSON.parse(input.trim().replace(/^```(?:json)?\s*|\s*```$/g, '')) as Record<string, any>;
+        } catch {
+            return { summary: input };
+        }
+    }
+    if (input && typeof input === 'object') {
+        return input as Record<string, any>;
+    }
+    return {};
+}
+
+export function resolveSummary(parsed: Record<string, any>): string {
+    if (typeof parsed.summary === 'string' && parsed.summary.trim().length > 0) {
+        return parsed.summary;
+    }
+    if (typeof parsed.message === 'string' && parsed.message.trim().length > 0) {
+        return parsed.message;
+    }
+    if (typeof parsed.text === 'string' && parsed.text.trim().length > 0) {
+        return parsed.text;
+    }
+    return 'AI response received';
+}
+
+export function resolveWarnings(parsed: Record<string, any>): string[] | undefined {
+    if (Array.isArray(parsed.warnings)) {
+        return parsed.warnings.filter((warning) => typeof warning === 'string');
+    }
+    return undefined;
+}
+
+export function resolveActions(parsed: Record<string, any>): AIAction[] {
+    if (Array.isArray(parsed.actions)) {
+        return parsed.actions;
+    }
+    if (Array.isArray(parsed.proposed_actions)) {
+        return parsed.proposed_actions;
+    }
+    if (parsed.action && typeof parsed.action === 'object') {
+        return [parsed.action];
+    }
+    if (parsed.actions && typeof parsed.actions === 'object') {
+        return [parsed.actions];
+    }
+    return [];
+}
+
+const ALLOWED_ACTIONS = new Set(AI_ACTION_TYPES);
+
+const TYPE_ALIASES: Record<string, string> = {
+    createbudget: 'create_bucket',
+    create_budget: 'create_bucket',
+    updatebudget: 'update_bucket',
+    update_budget: 'update_bucket',
+    setbudget: 'update_bucket',
+    set_budget: 'update_bucket',
+    deletebudget: 'delete_bucket',
+    delete_budget: 'delete_bucket',
+};
+
+export function normalizeActions(actions: AIAction[]): { normalized: AIAction[]; warnings: string[] } {
+    const normalized: AIAction[] = [];
+    const warnings: string[] = [];
+
+    for (const action of actions) {
+        const obj: Record<string, any> =
+            typeof action === 'string' ? { type: action } : (action as Record<string, any>);
+
+        if (!obj || typeof obj !== 'object' || Array.isArray(obj)) {
+            warnings.push('Skipped invalid action format');
+            continue;
+        }
+
+        const rawType =
+            obj.type ?? obj.action ?? obj.actionType ?? obj.action_type;
+
+        if (typeof rawType !== 'string' || rawType.trim().length === 0) {
+            warnings.push('Skipped action without type');
+            continue;
+        }
+
+        const normalizedType = normalizeType(rawType);
+        if (!normalizedType) {
+            warnings.push(`Skipped unsupported action type: ${rawType}`);
+            continue;
+        }
+
+        obj.type = normalizedType;
+        normalized.push(camelizeKeys(obj) as AIAction);
+    }
+
+    return { normalized, warnings };
+}
+
+/**
+ * Renames snake_case fields (bucket_id, target_amount) to the camelCase the
+ * action schemas use
+ */
+function camelizeKeys(obj: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(obj)) {
+        const camel = key.replace(/_([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+        if (camel === key || !(camel in obj)) {
+            result[camel] = value;
+        }
+    }
+    return result;
+}
+
+export function normalizeType(type: string): string | null {
+    const snake = type.includes('_')
+        ? type.toLowerCase()
+        : type.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+    const aliased = TYPE_ALIASES[snake] ?? snake;
+    return ALLOWED_ACTIONS.has(aliased) ? aliased : null;
+}
@@ -0,0 +1,50 @@
+/**
+ * LLM Provider Selection
+ * AI_PROVIDER picks the model behind the copilot: anthropic (default), openai
+ * (any OpenAI-compatible endpoint, including local models) or fixture (replays
+ * recorded responses).
+ */
+
+import { createAnthropicProvider } from './anthropic';
+import { createFixtureProvider, recordingProvider } from './fixtures';
+import { createOpenAICompatibleProvider } from './openai';
+import { LLMProvider, LLMProviderError } from './types';
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider> = {
+    anthropic: createAnthropicProvider,
+    openai: createOpenAICompatibleProvider,
+    fixture: createFixtureProvider,
+};
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Returns the configured provider, created on first use. Throws an
+ * LLMProviderError if it is unknown or missing configuration.
+ */
+export function getLLMProvider(): LLMProvider {
+    if (cachedProvider) {
+        return cachedProvider;
+    }
+
+    const name = (process.env.AI_PROVIDER || 'anthropic').toLowerCase();
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+        throw new LLMProviderError(
+            `Unknown AI_PROVIDER "${name}" (expected ${Object.keys(PROVIDER_FACTORIES).join(', ')})`
+        );
+    }
+
+    const provider = factory();
+    const recordPath = process.env.AI_FIXTURE_RECORD_PATH;
+    cachedProvider = recordPath && name !== 'fixture' ? recordingProvider(provider, recordPath) : provider;
+    return cachedProvider;
+}
+
+/**
+ * Replaces the provider, e.g. with an in-memory one in tests; null restores
+ * the configured provider
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+    cachedProvider = provider;
+}
@@ -0,0 +1,199 @@
+/**
+ * Streaming Proposal Parsing
+ * Reads a propose_actions input while it is still being generated: the text of
+ * `summary` is reported as it grows, and each element of `actions` as soon as
+ * its JSON is complete. Text before the outer object (a code fence) and after
+ * it is ignored. The complete text is kept so it can be parsed with
+ * parseProposal once the stream ends.
+ */
+
+import { LLMProvider, ProposeActionsRequest } from './types';
+
+export interface ProposalStreamHandlers {
+    onSummary(delta: string): void;
+    // An element of `actions`, parsed (undefined if it is not valid JSON)
+    onAction(action: unknown, index: number): void;
+}
+
+type Container = '{' | '[';
+
+export class ProposalStreamParser {
+    private text = '';
+    private position = 0;
+    private stack: Container[] = [];
+    private inString = false;
+    private escaped = false;
+    private stringStart = -1;
+    private finished = false;
+
+    // Keys of the outer object
+    private expectingKey = true;
+    private lastString = '';
+    private currentKey: string | null = null;
+
+    private summaryStart = -1;
+    private summaryEmitted = 0;
+
+    private inActions = false;
+    private elementStart = -1;
+    private actionCount = 0;
+
+    constructor(private handlers: ProposalStreamHandlers) {}
+
+    /** Everything received so far */
+    get fullText(): string {
+        return this.text;
+    }
+
+    /** Number of `actions` elements reported so far */
+    get actionsSeen(): number {
+        return this.actionCount;
+    }
+
+    push(fragment: string): void {
+        this.text += fragment;
+        for (; this.position < this.text.length && !this.finished; this.position++) {
+            this.scan(this.text[this.position], this.position);
+        }
+        if (this.summaryStart >= 0) {
+            this.emitSummary(this.text.length);
+        }
+    }
+
+    private scan(char: string, index: number): void {
+        const depth = this.stack.length;
+
+        if (this.inString) {
+            if (this.escaped) {
+                this.escaped = false;
+            } else if (char === '\\') {
+                this.escaped = true;
+            } else if (char === '"') {
+                this.inString = false;
+                this.endString(index);
+            }
+            return;
+        }
+
+        if (depth === 0) {
+            if (char === '{') {
+                this.stack.push('{');
+            }
+            return;
+        }
+
+        // A value in the actions array starts
+        if (this.inActions && depth === 2 && this.elementStart < 0 && !/[\s,\]]/.test(char)) {
+            this.elementStart = index;
+        }
+
+        switch (char) {
+            case '"':
+                this.inString = true;
+                this.stringStart = index;
+                if (depth === 1 && !this.expectingKey && this.currentKey === 'summary') {
+                    this.summaryStart = index + 1;
+                }
+                break;
+            case '{':
+            case '[':
+                if (depth === 1 && char === '[' && this.currentKey === 'actions') {
+                    this.inActions = true;
+                }
+                this.stack.push(char);
+                break;
+            case '}':
+            case ']':
+                this.stack.pop();
+                if (this.stack.length === 0) {
+                    this.finished = true;
+                } else if (this.inActions && this.stack.length === 1) {
+                    // End of the actions array; a trailing literal element ends with it
+                    this.endElement(index);
+                    this.inActions = false;
+                } else if (this.inActions && this.stack.length === 2) {
+                    this.endElement(index + 1);
+                }
+                break;
+            case ':':
+                if (depth === 1) {
+                    this.currentKey = this.lastString;
+                    this.expectingKey = false;
+                }
+                break;
+            case ',':
+                if (depth === 1) {
+                    this.expectingKey = true;
+                    this.currentKey = null;
+                } else if (this.inActions && depth === 2) {
+                    this.endElement(index);
+                }
+                break;
+        }
+    }
+
+    private endString(index: number): void {
+        const depth = this.stack.length;
+        if (depth === 1) {
+            this.lastString = this.decode(this.text.slice(this.stringStart + 1, index)) ?? '';
+            if (this.summaryStart >= 0) {
+                this.emitSummary(index);
+                this.summaryStart = -1;
+            }
+        } else if (this.inActions && depth === 2) {
+            this.endElement(index + 1);
+        }
+    }
+
+    private endElement(end: number): void {
+        if (this.elementStart < 0) {
+            return;
+        }
+        const source = this.text.slice(this.elementStart, end).trim();
+        this.elementStart = -1;
+        let action: unknown;
+        try {
+            action = JSON.parse(source);
+        } catch {
+            action = undefined;
+        }
+        this.handlers.onAction(action, this.actionCount++);
+    }
+
+    /**
+     * Reports the summary decoded up to `end`. While it ends in an incomplete
+     * escape sequence it doesn't decode, and waits for the next fragment.
+     */
+    private emitSummary(end: number): void {
+        const decoded = this.decode(this.text.slice(this.summaryStart, end));
+        if (decoded !== null && decoded.length > this.summaryEmitted) {
+            this.handlers.onSummary(decoded.slice(this.summaryEmitted));
+            this.summaryEmitted = decoded.length;
+        }
+    }
+
+    private decode(raw: string): string | null {
+        try {
+            return JSON.parse(`"${raw}"`);
+        } catch {
+            return null;
+        }
+    }
+}
+
+/**
+ * The provider's streamed fragments; a provider that can't stream answers in
+ * one piece
+ */
+export async function* streamProposal(
+    provider: LLMProvider,
+    request: ProposeActionsRequest,
+    signal: AbortSignal
+): AsyncIterable<string> {
+    if (provider.streamActions) {
+        yield* provider.streamActions(request, signal);
+        return;
+    }
+    const raw = await provider.proposeActions(request);
+    yield typeof raw === 'string' ? raw : JSON.stringify(raw);
+}
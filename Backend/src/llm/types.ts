@@ -0,0 +1,55 @@
+/**
+ * LLM Provider Interface
+ * What the copilot needs from a model: given instructions and a conversation,
+ * answer with a propose_actions call. Providers return the call's raw input;
+ * parsing it is left to parse.ts so every provider is parsed the same way.
+ *
+ * Providers that can stream also yield the call's input as it is generated, as
+ * raw JSON text fragments; stream.ts picks summary text and finished actions
+ * out of them.
+ */
+
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface ProposeActionsRequest {
+    system: string;
+    messages: ChatMessage[];
+    maxTokens: number;
+}
+
+export interface LLMProvider {
+    name: string;
+    proposeActions(request: ProposeActionsRequest): Promise<unknown>;
+    // Fragments of the propose_actions input, in order; aborting `signal` cancels the upstream request
+    streamActions?(request: ProposeActionsRequest, signal: AbortSignal): AsyncIterable<string>;
+}
+
+export class LLMProviderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LLMProviderError';
+    }
+}
+
+export const PROPOSE_ACTIONS_TOOL = {
+    name: 'propose_actions',
+    description: 'Return structured JSON actions for the user command.',
+    input_schema: {
+        type: 'object' as const,
+        properties: {
+            actions: {
+                type: 'array',
+                items: { type: 'object' },
+            },
+            summary: { type: 'string' },
+            warnings: {
+                type: 'array',
+                items: { type: 'string' },
+            },
+        },
+        required: ['actions', 'summary'],
+    },
+};
@@ -0,0 +1,114 @@
+/**
+ * API Key Authentication Middleware
+ * Resolves the calling user from a bearer API key (users.api_key_hash)
+ */
+
+import crypto from 'crypto';
+import express from 'express';
+import { supabase, Tables } from '../db/supabase';
+
+declare global {
+    namespace Express {
+        interface Request {
+            userId?: string;
+        }
+    }
+}
+
+const API_KEY_PREFIX = 'bp_';
+
+/**
+ * Generates a new random API key. Only its hash is ever stored.
+ */
+export function generateApiKey(): string {
+    return API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hashes an API key for storage and lookup.
+ * Keys are 256-bit random values, so an unsalted SHA-256 is sufficient
+ * and keeps the hash usable as a unique lookup column.
+ */
+export function hashApiKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+function extractBearerToken(req: express.Request): string | null {
+    const header = req.headers.authorization;
+    if (!header) {
+        return null;
+    }
+
+    const [scheme, token] = header.split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+        return null;
+    }
+
+    return token.trim();
+}
+
+function timingSafeEqualStrings(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Requires a valid, non-revoked user API key and attaches req.userId
+ */
+export async function requireApiKey(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    const apiKey = extractBearerToken(req);
+    if (!apiKey) {
+        return res.status(401).json({ error: 'Missing API key' });
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from(Tables.USERS)
+            .select('id, api_key_revoked_at')
+            .eq('api_key_hash', hashApiKey(apiKey))
+            .maybeSingle();
+
+        if (error) {
+            throw error;
+        }
+
+        if (!data || data.api_key_revoked_at) {
+            return res.status(401).json({ error: 'Invalid API key' });
+        }
+
+        req.userId = data.id;
+        next();
+    } catch (error) {
+        console.error('Error authenticating API key:', error);
+        res.status(500).json({
+            error: 'Failed to authenticate',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+}
+
+/**
+ * Requires the server admin key (ADMIN_API_KEY) for key management routes
+ */
+export function requireAdminKey(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (!adminKey) {
+        return res.status(500).json({ error: 'ADMIN_API_KEY is not set' });
+    }
+
+    const apiKey = extractBearerToken(req);
+    if (!apiKey || !timingSafeEqualStrings(apiKey, adminKey)) {
+        return res.status(401).json({ error: 'Invalid admin key' });
+    }
+
+    next();
+}
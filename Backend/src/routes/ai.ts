@@ -3,254 +3,465 @@
  * Handles AI command processing and structured action generation
  */
 
+import crypto from 'crypto';
 import express from 'express';
-import Anthropic from '@anthropic-ai/sdk';
+import { supabase, Tables } from '../db/supabase';
+import {
+    ActionValidationContext,
+    describeActionSchemas,
+    RejectedAction,
+    validateProposedActions,
+} from '../services/aiActions';
+import {
+    AIAction,
+    coerceToolInput,
+    normalizeActions,
+    parseProposal,
+    resolveActions,
+    resolveSummary,
+    resolveWarnings,
+} from '../llm/parse';
+import { getLLMProvider } from '../llm/provider';
+import { ProposalStreamParser, streamProposal } from '../llm/stream';
+import { LLMProviderError, ProposeActionsRequest } from '../llm/types';
+import { AIApplyError, applyAIActions } from '../services/aiApply';
+import { loadCopilotContext } from '../services/aiContext';
+import {
+    AISessionError,
+    AISessionTurn,
+    appendSessionTurn,
+    buildSessionHistory,
+    createSession,
+    getSession,
+    getSessionTurns,
+    recordActionOutcomes,
+    SessionHistory,
+} from '../services/aiSessions';
+import { parseLimit } from '../utils/cursor';
 
 const router = express.Router();
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HISTORY_TOKEN_BUDGET = Number(process.env.AI_HISTORY_TOKEN_BUDGET ?? 4000);
+const CONTEXT_TOKEN_BUDGET = Number(process.env.AI_CONTEXT_TOKEN_BUDGET ?? 3000);
 
 interface AICommandRequest {
     command: string;
-    context: {
-        unassignedBalance: number;
-        buckets: Array<{
-            id: string;
-            name: string;
-            available: number;
-        }>;
-        recentTransactions: Array<{
-            id: string;
-            merchantName: string;
-            amount: number;
-            date: string;
-        }>;
-    };
-}
-
-interface AIAction {
-    type: string;
-    id?: string;
-    [key: string]: any;
+    session_id?: string;
+    // { action_id: 'accepted' | 'rejected' } for actions proposed in earlier turns
+    action_outcomes?: Record<string, unknown>;
 }
 
 interface AICommandResponse {
+    session_id: string;
+    turn_id: string;
     actions: AIAction[];
+    // Proposals that failed validation, with the reasons; never to be applied
+    rejected_actions: RejectedAction[];
     summary: string;
     warnings?: string[];
 }
 
+function sendAIError(res: express.Response, error: unknown, message: string) {
+    if (error instanceof AISessionError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    // Provider misconfiguration (unknown AI_PROVIDER, missing API key)
+    if (error instanceof LLMProviderError) {
+        return res.status(500).json({ error: error.message });
+    }
+    console.error(`${message}:`, error);
+    res.status(500).json({
+        error: message,
+        message: error instanceof Error ? error.message : 'Unknown error',
+    });
+}
+
+function sendEvent(res: express.Response, event: string, data: unknown) {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function commandRequestError({ command, session_id: sessionId, action_outcomes: actionOutcomes }: AICommandRequest) {
+    if (!command) {
+        return 'command is required';
+    }
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || !UUID_PATTERN.test(sessionId))) {
+        return 'session_id must be a UUID';
+    }
+    if (actionOutcomes !== undefined && (typeof actionOutcomes !== 'object' || actionOutcomes === null)) {
+        return 'action_outcomes must be an object of action id to outcome';
+    }
+    return null;
+}
+
 /**
- * POST /ai/command
- * Processes user command and returns structured JSON actions
+ * Records outcomes reported for the session's earlier actions and builds the
+ * model request, with the session's history and the user's budget as stored
  */
-router.post('/command', async (req, res) => {
-    try {
-        const { command, context }: AICommandRequest = req.body;
-        
-        if (!command) {
-            return res.status(400).json({ error: 'command is required' });
-        }
+async function prepareCommand(
+    userId: string,
+    { command, session_id: sessionId, action_outcomes: actionOutcomes }: AICommandRequest
+): Promise<{ request: ProposeActionsRequest; budget: ActionValidationContext }> {
+    const { context, budget } = await loadCopilotContext(userId, CONTEXT_TOKEN_BUDGET);
 
-        if (!process.env.ANTHROPIC_API_KEY) {
-            return res.status(500).json({ error: 'ANTHROPIC_API_KEY is not set' });
+    let history: SessionHistory = { messages: [], earlierSummary: null };
+    if (sessionId) {
+        await getSession(userId, sessionId);
+        if (actionOutcomes) {
+            await recordActionOutcomes(userId, sessionId, actionOutcomes);
         }
+        history = buildSessionHistory(await getSessionTurns(sessionId), HISTORY_TOKEN_BUDGET);
+    }
 
-        const model = process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022';
-        const systemPrompt = [
-            'You are BucketPilot AI Copilot.',
-            'Return ONLY valid JSON with keys: actions (array), summary (string), warnings (optional array of strings).',
-            'Use double quotes for all JSON keys/strings.',
-            'Do not include markdown, code fences, or extra text.',
-            'Do not include trailing commas.',
-            'Use ONLY these action types: create_bucket, update_bucket, delete_bucket, allocate, move, create_rule, update_rule, create_merchant_mapping.',
-            'If the user asks to set a budget, use create_bucket or update_bucket with targetAmount and targetType.',
-            'Use the user command and provided context to propose actions.',
-        ].join(' ');
-
-        const userPayload = JSON.stringify(
-            {
-                command,
-                context,
-            },
-            null,
-            2
-        );
-
-        const response = await anthropic.messages.create({
-            model,
-            max_tokens: 800,
+    const systemPrompt = [
+        'You are BucketPilot AI Copilot.',
+        'Return ONLY valid JSON with keys: actions (array), summary (string), warnings (optional array of strings).',
+        'Use double quotes for all JSON keys/strings.',
+        'Do not include markdown, code fences, or extra text.',
+        'Do not include trailing commas.',
+        `Use ONLY these action types, with these fields (? = optional): ${describeActionSchemas()}.`,
+        'Refer to buckets by their id from context.buckets. Amounts are positive, in dollars, with at most two decimals.',
+        'Allocations must not exceed context.unassignedBalance and moves must not exceed the source bucket\'s available amount.',
+        'context.buckets have their targets, rollover modes and spentThisMonth; context.rules are the enabled funding rules; context.topMerchants is spending of the last 90 days.',
+        'Lists are ordered most relevant first and may be cut short; context.omitted counts the items left out.',
+        'If the user asks to set a budget, use create_bucket or update_bucket with targetAmount and targetType.',
+        'Use the user command and provided context to propose actions.',
+        'Earlier turns of this conversation show the actions you proposed and whether the user accepted or rejected each; build on them when the command refers back.',
+        ...(history.earlierSummary ? [`Earlier in this conversation:\n${history.earlierSummary}`] : []),
+    ].join(' ');
+
+    const userPayload = JSON.stringify(
+        {
+            command,
+            context,
+        },
+        null,
+        2
+    );
+
+    return {
+        request: {
             system: systemPrompt,
             messages: [
+                ...history.messages,
                 {
                     role: 'user',
                     content: userPayload,
                 },
             ],
-            tools: [
-                {
-                    name: 'propose_actions',
-                    description: 'Return structured JSON actions for the user command.',
-                    input_schema: {
-                        type: 'object',
-                        properties: {
-                            actions: {
-                                type: 'array',
-                                items: { type: 'object' },
-                            },
-                            summary: { type: 'string' },
-                            warnings: {
-                                type: 'array',
-                                items: { type: 'string' },
-                            },
-                        },
-                        required: ['actions', 'summary'],
-                    },
-                },
-            ],
-            tool_choice: {
-                type: 'tool',
-                name: 'propose_actions',
-            },
-        });
+            maxTokens: 800,
+        },
+        budget,
+    };
+}
+
+function describeRejection(rejection: RejectedAction): string {
+    return `Skipped ${rejection.action.type}: ${rejection.errors.map((actionError) => actionError.message).join('; ')}`;
+}
+
+function mergeWarnings(modelWarnings: string[] | undefined, warnings: string[]): string[] | undefined {
+    return warnings.length > 0 ? [...(modelWarnings ?? []), ...warnings] : modelWarnings;
+}
 
-        const toolBlock = response.content.find((block) => block.type === 'tool_use');
-        if (!toolBlock || toolBlock.type !== 'tool_use') {
-            throw new Error('AI response did not include tool output');
+/**
+ * Stores the turn, in a new session unless the command continued one
+ */
+async function storeTurn(
+    userId: string,
+    { command, session_id: sessionId }: AICommandRequest,
+    result: { summary: string; actions: AISessionTurn['actions']; warnings: string[] | undefined; budget: ActionValidationContext }
+): Promise<{ session_id: string; turn_id: string }> {
+    const session = sessionId ? { id: sessionId } : await createSession(userId, command);
+    const turn = await appendSessionTurn(userId, session.id, {
+        command,
+        summary: result.summary,
+        actions: result.actions,
+        warnings: result.warnings ?? [],
+        context: result.budget,
+    });
+    return { session_id: session.id, turn_id: turn.id };
+}
+/**
+ * POST /ai/command
+ * Processes user command and returns structured JSON actions. Pass the
+ * `session_id` of an earlier response to continue that conversation (and
+ * `action_outcomes` to report which of its actions were accepted or rejected);
+ * without one a new session is started.
+ */
+router.post('/command', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const body: AICommandRequest = req.body;
+        const invalid = commandRequestError(body);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
         }
-        const parsed = coerceToolInput(toolBlock.input);
-        const summary = resolveSummary(parsed);
-        const rawActions = resolveActions(parsed);
-        const { normalized, warnings } = normalizeActions(rawActions);
-        const parsedWarnings = resolveWarnings(parsed);
+
+        const provider = getLLMProvider();
+        const { request, budget } = await prepareCommand(userId, body);
+        const raw = await provider.proposeActions(request);
+
+        const { summary, actions: normalized, modelWarnings: parsedWarnings, warnings } = parseProposal(raw);
+        const { valid, rejected } = validateProposedActions(normalized, budget);
+        for (const rejection of rejected) {
+            warnings.push(describeRejection(rejection));
+        }
+        const allWarnings = mergeWarnings(parsedWarnings, warnings);
+
+        // Server-assigned ids let later turns report outcomes per action
+        const actions = valid.map((action) => ({ ...action, id: crypto.randomUUID() }));
+
+        const stored = await storeTurn(userId, body, { summary, actions, warnings: allWarnings, budget });
 
         res.json({
-            actions: normalized,
+            ...stored,
+            actions,
+            rejected_actions: rejected,
             summary,
-            warnings: warnings.length > 0 ? [...(parsedWarnings ?? []), ...warnings] : parsedWarnings,
+            warnings: allWarnings,
         } satisfies AICommandResponse);
     } catch (error) {
-        console.error('Error processing AI command:', error);
-        res.status(500).json({
+        sendAIError(res, error, 'Failed to process AI command');
+    }
+});
+
+/**
+ * POST /ai/command/stream
+ * Same request as /ai/command, answered with Server-Sent Events while the
+ * model is still generating: `summary` ({ text }) for each new piece of the
+ * summary, `action` for each action as soon as it is complete and valid,
+ * `rejected_action` for each that isn't, then `done` with the session_id,
+ * turn_id, full summary and warnings (or `error`). Disconnecting cancels the
+ * model request.
+ */
+router.post('/command/stream', async (req, res) => {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) {
+            controller.abort();
+        }
+    });
+
+    try {
+        const userId = req.userId!;
+        const body: AICommandRequest = req.body;
+        const invalid = commandRequestError(body);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const provider = getLLMProvider();
+        const { request, budget } = await prepareCommand(userId, body);
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+            // Keep reverse proxies from buffering the stream
+            'X-Accel-Buffering': 'no',
+        });
+
+        const proposed: AIAction[] = [];
+        const actions: AISessionTurn['actions'] = [];
+        const rejected: RejectedAction[] = [];
+        const warnings: string[] = [];
+
+        // Each action is validated against the ones before it, as in /command
+        const handleAction = (raw: unknown) => {
+            const { normalized, warnings: normalizeWarnings } = normalizeActions([raw as AIAction]);
+            warnings.push(...normalizeWarnings);
+            if (normalized.length === 0) {
+                return;
+            }
+            proposed.push(normalized[0]);
+            const rejection = validateProposedActions(proposed, budget).rejected.find(
+                (candidate) => candidate.index === proposed.length - 1
+            );
+            if (rejection) {
+                rejected.push(rejection);
+                warnings.push(describeRejection(rejection));
+                sendEvent(res, 'rejected_action', rejection);
+                return;
+            }
+            const action = { ...normalized[0], id: crypto.randomUUID() };
+            actions.push(action);
+            sendEvent(res, 'action', action);
+        };
+
+        const parser = new ProposalStreamParser({
+            onSummary: (text) => sendEvent(res, 'summary', { text }),
+            onAction: handleAction,
+        });
+        for await (const fragment of streamProposal(provider, request, controller.signal)) {
+            parser.push(fragment);
+        }
+        if (controller.signal.aborted) {
+            return;
+        }
+
+        // The complete response decides the summary and warnings, and catches
+        // actions the stream couldn't pick out (text answers, other keys)
+        const parsed = coerceToolInput(parser.fullText);
+        resolveActions(parsed).slice(parser.actionsSeen).forEach(handleAction);
+        const summary = resolveSummary(parsed);
+        const allWarnings = mergeWarnings(resolveWarnings(parsed), warnings);
+
+        const stored = await storeTurn(userId, body, { summary, actions, warnings: allWarnings, budget });
+        sendEvent(res, 'done', { ...stored, summary, warnings: allWarnings });
+        res.end();
+    } catch (error) {
+        if (controller.signal.aborted) {
+            return;
+        }
+        if (!res.headersSent) {
+            return sendAIError(res, error, 'Failed to process AI command');
+        }
+        console.error('Failed to stream AI command:', error);
+        sendEvent(res, 'error', {
             error: 'Failed to process AI command',
             message: error instanceof Error ? error.message : 'Unknown error',
         });
+        res.end();
     }
 });
 
-export default router;
+/**
+ * POST /ai/actions/apply
+ * Applies accepted actions of a session: { session_id, action_ids }. They are
+ * turned into events (allocations with sourceType `ai`) in one atomic batch, in
+ * the order they were proposed. Refused with 409 if a balance an action depends
+ * on has changed since it was proposed, or it no longer fits the budget.
+ */
+router.post('/actions/apply', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const { session_id: sessionId, action_ids: actionIds } = req.body ?? {};
 
-function coerceToolInput(input: unknown): Record<string, any> {
-    if (typeof input === 'string') {
-        try {
-            return JSON.parse(input) as Record<string, any>;
-        } catch {
-            return { summary: input };
+        if (typeof sessionId !== 'string' || !UUID_PATTERN.test(sessionId)) {
+            return res.status(400).json({ error: 'session_id must be a UUID' });
+        }
+        if (
+            !Array.isArray(actionIds) ||
+            actionIds.length === 0 ||
+            actionIds.some((actionId) => typeof actionId !== 'string')
+        ) {
+            return res.status(400).json({ error: 'action_ids must be a non-empty array of action ids' });
         }
-    }
-    if (input && typeof input === 'object') {
-        return input as Record<string, any>;
-    }
-    return {};
-}
 
-function resolveSummary(parsed: Record<string, any>): string {
-    if (typeof parsed.summary === 'string' && parsed.summary.trim().length > 0) {
-        return parsed.summary;
-    }
-    if (typeof parsed.message === 'string' && parsed.message.trim().length > 0) {
-        return parsed.message;
-    }
-    if (typeof parsed.text === 'string' && parsed.text.trim().length > 0) {
-        return parsed.text;
+        const applied = await applyAIActions(userId, sessionId, actionIds);
+        res.json({ applied });
+    } catch (error) {
+        if (error instanceof AIApplyError) {
+            return res.status(error.status).json({ error: error.message, ...(error.details ?? {}) });
+        }
+        sendAIError(res, error, 'Failed to apply AI actions');
     }
-    return 'AI response received';
-}
+});
 
-function resolveWarnings(parsed: Record<string, any>): string[] | undefined {
-    if (Array.isArray(parsed.warnings)) {
-        return parsed.warnings.filter((warning) => typeof warning === 'string');
-    }
-    return undefined;
-}
+/**
+ * GET /ai/sessions
+ * Lists copilot sessions, most recently used first. Paginate with `limit`
+ * (max 100) and `before` (an updated_at timestamp).
+ */
+router.get('/sessions', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const limit = parseLimit(req.query.limit, 30, 100);
+        const before = req.query.before as string | undefined;
+        if (before !== undefined && isNaN(Date.parse(before))) {
+            return res.status(400).json({ error: 'before must be a timestamp' });
+        }
 
-function resolveActions(parsed: Record<string, any>): AIAction[] {
-    if (Array.isArray(parsed.actions)) {
-        return parsed.actions;
-    }
-    if (Array.isArray(parsed.proposed_actions)) {
-        return parsed.proposed_actions;
-    }
-    if (parsed.action && typeof parsed.action === 'object') {
-        return [parsed.action];
-    }
-    if (parsed.actions && typeof parsed.actions === 'object') {
-        return [parsed.actions];
-    }
-    return [];
-}
+        let query = supabase
+            .from(Tables.AI_SESSIONS)
+            .select('id, title, created_at, updated_at')
+            .eq('user_id', userId)
+            .is('deleted_at', null);
+        if (before) {
+            query = query.lt('updated_at', before);
+        }
 
-const ALLOWED_ACTIONS = new Set([
-    'create_bucket',
-    'update_bucket',
-    'delete_bucket',
-    'allocate',
-    'move',
-    'create_rule',
-    'update_rule',
-    'create_merchant_mapping',
-]);
-
-const TYPE_ALIASES: Record<string, string> = {
-    createbudget: 'create_bucket',
-    create_budget: 'create_bucket',
-    updatebudget: 'update_bucket',
-    update_budget: 'update_bucket',
-    setbudget: 'update_bucket',
-    set_budget: 'update_bucket',
-    deletebudget: 'delete_bucket',
-    delete_budget: 'delete_bucket',
-};
-
-function normalizeActions(actions: AIAction[]): { normalized: AIAction[]; warnings: string[] } {
-    const normalized: AIAction[] = [];
-    const warnings: string[] = [];
-
-    for (const action of actions) {
-        const obj: Record<string, any> =
-            typeof action === 'string' ? { type: action } : (action as Record<string, any>);
-
-        if (!obj || typeof obj !== 'object' || Array.isArray(obj)) {
-            warnings.push('Skipped invalid action format');
-            continue;
+        const { data, error } = await query.order('updated_at', { ascending: false }).limit(limit);
+        if (error) {
+            throw error;
         }
 
-        const rawType =
-            obj.type ?? obj.action ?? obj.actionType ?? obj.action_type;
+        res.json({ sessions: data ?? [] });
+    } catch (error) {
+        sendAIError(res, error, 'Failed to fetch AI sessions');
+    }
+});
 
-        if (typeof rawType !== 'string' || rawType.trim().length === 0) {
-            warnings.push('Skipped action without type');
-            continue;
+/**
+ * GET /ai/sessions/:id
+ * Returns a session with its turns, oldest first
+ */
+router.get('/sessions/:id', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        if (!UUID_PATTERN.test(req.params.id)) {
+            return res.status(404).json({ error: 'Session not found' });
         }
 
-        const normalizedType = normalizeType(rawType);
-        if (!normalizedType) {
-            warnings.push(`Skipped unsupported action type: ${rawType}`);
-            continue;
+        const session = await getSession(userId, req.params.id);
+        const turns = await getSessionTurns(session.id);
+        res.json({ session, turns });
+    } catch (error) {
+        sendAIError(res, error, 'Failed to fetch AI session');
+    }
+});
+
+/**
+ * POST /ai/sessions/:id/outcomes
+ * Records which proposed actions the user accepted or rejected:
+ * { outcomes: { action_id: 'accepted' | 'rejected' } }
+ */
+router.post('/sessions/:id/outcomes', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const { outcomes } = req.body ?? {};
+        if (!UUID_PATTERN.test(req.params.id)) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+        if (typeof outcomes !== 'object' || outcomes === null || Array.isArray(outcomes)) {
+            return res.status(400).json({ error: 'outcomes must be an object of action id to outcome' });
         }
 
-        obj.type = normalizedType;
-        normalized.push(obj as AIAction);
+        await recordActionOutcomes(userId, req.params.id, outcomes);
+        res.json({ success: true });
+    } catch (error) {
+        sendAIError(res, error, 'Failed to record action outcomes');
     }
+});
 
-    return { normalized, warnings };
-}
+/**
+ * DELETE /ai/sessions/:id
+ * Deletes a session and its turns. Turns with applied actions are kept (hidden
+ * with the session), so the events they made can still be traced to a command.
+ */
+router.delete('/sessions/:id', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        if (!UUID_PATTERN.test(req.params.id)) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
 
-function normalizeType(type: string): string | null {
-    const lower = type.toLowerCase();
-    const snake = lower.includes('_')
-        ? lower
-        : lower.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+        const { data: deleted, error } = await supabase.rpc('delete_ai_session', {
+            p_user_id: userId,
+            p_session_id: req.params.id,
+        });
 
-    const aliased = TYPE_ALIASES[snake] ?? snake;
-    return ALLOWED_ACTIONS.has(aliased) ? aliased : null;
-}
+        if (error) {
+            throw error;
+        }
+        if (!deleted) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        sendAIError(res, error, 'Failed to delete AI session');
+    }
+});
+
+export default router;
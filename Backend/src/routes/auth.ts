@@ -0,0 +1,160 @@
+/**
+ * API Key Management Routes
+ * Issues, rotates and revokes per-user API keys
+ */
+
+import express from 'express';
+import { supabase, Tables } from '../db/supabase';
+import { generateApiKey, hashApiKey, requireAdminKey, requireApiKey } from '../middleware/auth';
+
+const router = express.Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /auth/keys
+ * Issues an API key (admin only). Creates a new user unless user_id is given,
+ * in which case the user's current key is replaced and un-revoked.
+ * The plaintext key is returned once and never stored.
+ */
+router.post('/keys', requireAdminKey, async (req, res) => {
+    try {
+        const { user_id, email } = req.body ?? {};
+        if (user_id != null && (typeof user_id !== 'string' || !UUID_PATTERN.test(user_id))) {
+            return res.status(400).json({ error: 'user_id must be a UUID' });
+        }
+        const apiKey = generateApiKey();
+        const apiKeyHash = hashApiKey(apiKey);
+
+        const query = user_id
+            ? supabase
+                  .from(Tables.USERS)
+                  .update({
+                      api_key_hash: apiKeyHash,
+                      api_key_revoked_at: null,
+                      updated_at: new Date().toISOString(),
+                  })
+                  .eq('id', user_id)
+            : supabase.from(Tables.USERS).insert({
+                  email: email ?? null,
+                  api_key_hash: apiKeyHash,
+              });
+
+        const { data, error } = await query.select('id, email').maybeSingle();
+
+        if (error) {
+            throw error;
+        }
+
+        if (!data) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        res.status(user_id ? 200 : 201).json({
+            user_id: data.id,
+            email: data.email,
+            api_key: apiKey,
+        });
+    } catch (error) {
+        console.error('Error issuing API key:', error);
+        res.status(500).json({
+            error: 'Failed to issue API key',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * POST /auth/keys/:userId/revoke
+ * Revokes a user's API key (admin only)
+ */
+router.post('/keys/:userId/revoke', requireAdminKey, async (req, res) => {
+    try {
+        if (!UUID_PATTERN.test(req.params.userId)) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        const revoked = await revokeKey(req.params.userId);
+        if (!revoked) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Error revoking API key:', error);
+        res.status(500).json({
+            error: 'Failed to revoke API key',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * POST /auth/keys/rotate
+ * Replaces the caller's API key. The old key stops working immediately.
+ */
+router.post('/keys/rotate', requireApiKey, async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const apiKey = generateApiKey();
+
+        const { error } = await supabase
+            .from(Tables.USERS)
+            .update({
+                api_key_hash: hashApiKey(apiKey),
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', userId);
+
+        if (error) {
+            throw error;
+        }
+
+        res.json({
+            user_id: userId,
+            api_key: apiKey,
+        });
+    } catch (error) {
+        console.error('Error rotating API key:', error);
+        res.status(500).json({
+            error: 'Failed to rotate API key',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * POST /auth/keys/revoke
+ * Revokes the caller's own API key
+ */
+router.post('/keys/revoke', requireApiKey, async (req, res) => {
+    try {
+        await revokeKey(req.userId!);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Error revoking API key:', error);
+        res.status(500).json({
+            error: 'Failed to revoke API key',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
+
+async function revokeKey(userId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from(Tables.USERS)
+        .update({
+            api_key_revoked_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId)
+        .select('id');
+
+    if (error) {
+        throw error;
+    }
+
+    return (data ?? []).length > 0;
+}
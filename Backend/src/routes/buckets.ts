@@ -0,0 +1,118 @@
+/**
+ * Bucket Routes
+ * Read API for bucket balances and the ledger entries behind them
+ */
+
+import express from 'express';
+import { supabase, Views } from '../db/supabase';
+import { getBucketState, getBucketStates, getUnassignedBalance } from '../services/ledger';
+import { decodeCursor, encodeCursor, parseLimit } from '../utils/cursor';
+
+const router = express.Router();
+
+const LEDGER_CURSOR_KEYS = ['occurred_at', 'id'] as const;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /buckets
+ * Lists buckets with assigned, activity and available, plus the unassigned balance
+ */
+router.get('/', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const [buckets, unassignedBalance] = await Promise.all([
+            getBucketStates(userId),
+            getUnassignedBalance(userId),
+        ]);
+
+        res.json({
+            unassigned_balance: unassignedBalance,
+            buckets,
+        });
+    } catch (error) {
+        console.error('Error fetching buckets:', error);
+        res.status(500).json({
+            error: 'Failed to fetch buckets',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * GET /buckets/:id/ledger
+ * Lists the allocation and spend entries for a bucket, newest first.
+ * Paginate with `limit` (max 200) and the returned `next_cursor`.
+ */
+router.get('/:id/ledger', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        if (!UUID_PATTERN.test(req.params.id)) {
+            return res.status(404).json({ error: 'Bucket not found' });
+        }
+        const limit = parseLimit(req.query.limit, 50, 200);
+
+        const cursor = req.query.cursor
+            ? decodeCursor(req.query.cursor as string, LEDGER_CURSOR_KEYS)
+            : null;
+        if (
+            req.query.cursor &&
+            (!cursor || isNaN(new Date(cursor.occurred_at).getTime()) || !UUID_PATTERN.test(cursor.id))
+        ) {
+            return res.status(400).json({ error: 'Invalid cursor' });
+        }
+        // Only the re-serialized timestamp goes into the filter, never the client's string
+        const cursorOccurredAt = cursor ? new Date(cursor.occurred_at).toISOString() : null;
+
+        const bucket = await getBucketState(userId, req.params.id);
+        if (!bucket) {
+            return res.status(404).json({ error: 'Bucket not found' });
+        }
+
+        // Cursor values were validated above, so they are safe to embed in the filter
+        let query = supabase
+            .from(Views.BUCKET_LEDGER_ENTRIES)
+            .select('*')
+            .eq('bucket_id', bucket.id)
+            .eq('user_id', userId);
+
+        if (cursor && cursorOccurredAt) {
+            query = query.or(
+                `occurred_at.lt."${cursorOccurredAt}",and(occurred_at.eq."${cursorOccurredAt}",id.lt.${cursor.id})`
+            );
+        }
+
+        const { data, error } = await query
+            .order('occurred_at', { ascending: false })
+            .order('id', { ascending: false })
+            .limit(limit + 1);
+
+        if (error) {
+            throw error;
+        }
+
+        const rows = data ?? [];
+        const entries = rows.slice(0, limit).map((row) => ({
+            ...row,
+            amount: Number(row.amount),
+        }));
+        const last = entries[entries.length - 1];
+
+        res.json({
+            bucket,
+            entries,
+            has_more: rows.length > limit,
+            next_cursor:
+                rows.length > limit && last
+                    ? encodeCursor({ occurred_at: last.occurred_at, id: last.id })
+                    : null,
+        });
+    } catch (error) {
+        console.error('Error fetching bucket ledger:', error);
+        res.status(500).json({
+            error: 'Failed to fetch bucket ledger',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
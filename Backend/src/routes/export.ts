@@ -0,0 +1,188 @@
+/**
+ * Export Routes
+ * Full account archive (JSON) and spreadsheet-friendly CSV exports
+ */
+
+import express from 'express';
+import { supabase, Tables, Views } from '../db/supabase';
+import { buildArchive } from '../services/archive';
+import { getBucketStates } from '../services/ledger';
+import { getSplitsByTransaction } from '../services/splits';
+import { toCsv } from '../utils/csv';
+
+const router = express.Router();
+
+const PAGE_SIZE = 1000;
+const SPLIT_CHUNK_SIZE = 100;
+
+function sendCsv(res: express.Response, filename: string, csv: string) {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(csv);
+}
+
+/**
+ * GET /export
+ * Returns a versioned JSON archive of the account: buckets, funding rules,
+ * merchant mappings, month closes, transactions, splits, the complete events
+ * log and the balances at export time. Restore it with POST /import/archive.
+ */
+router.get('/', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const archive = await buildArchive(userId);
+        const date = archive.exported_at.slice(0, 10);
+
+        res.setHeader('Content-Disposition', `attachment; filename="bucketpilot-${date}.json"`);
+        res.json(archive);
+    } catch (error) {
+        console.error('Error exporting archive:', error);
+        res.status(500).json({
+            error: 'Failed to export archive',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * GET /export/transactions.csv
+ * All transactions, oldest first, one row per transaction with its buckets
+ */
+router.get('/transactions.csv', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const bucketNames = new Map((await getBucketStates(userId)).map((bucket) => [bucket.id, bucket.name]));
+
+        const rows: Array<Array<string | number | boolean | null>> = [
+            ['id', 'date', 'account_id', 'merchant_name', 'description', 'amount', 'pending', 'source', 'buckets'],
+        ];
+
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await supabase
+                .from(Tables.TRANSACTIONS)
+                .select('id, date, account_id, merchant_name, description, amount, is_pending, source')
+                .eq('user_id', userId)
+                .order('date', { ascending: true })
+                .order('id', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) {
+                throw error;
+            }
+
+            const page = data ?? [];
+            for (let start = 0; start < page.length; start += SPLIT_CHUNK_SIZE) {
+                const chunk = page.slice(start, start + SPLIT_CHUNK_SIZE);
+                const splits = await getSplitsByTransaction(chunk.map((transaction) => transaction.id));
+
+                for (const transaction of chunk) {
+                    const buckets = (splits.get(transaction.id) ?? [])
+                        .map((split) => {
+                            const name = split.bucket_id
+                                ? bucketNames.get(split.bucket_id) ?? split.bucket_id
+                                : 'Unassigned';
+                            return `${name}: ${split.amount.toFixed(2)}`;
+                        })
+                        .join('; ');
+                    rows.push([
+                        transaction.id,
+                        transaction.date,
+                        transaction.account_id,
+                        transaction.merchant_name,
+                        transaction.description,
+                        Number(transaction.amount),
+                        transaction.is_pending,
+                        transaction.source,
+                        buckets,
+                    ]);
+                }
+            }
+
+            if (page.length < PAGE_SIZE) {
+                break;
+            }
+        }
+
+        sendCsv(res, 'transactions.csv', toCsv(rows));
+    } catch (error) {
+        console.error('Error exporting transactions:', error);
+        res.status(500).json({
+            error: 'Failed to export transactions',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * GET /export/ledger.csv
+ * Every bucket's allocation and spend entries, oldest first, with a running
+ * balance per bucket. `bucket_id` limits the export to one bucket.
+ */
+router.get('/ledger.csv', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const bucketId = typeof req.query.bucket_id === 'string' ? req.query.bucket_id : undefined;
+
+        const buckets = await getBucketStates(userId);
+        if (bucketId && !buckets.some((bucket) => bucket.id === bucketId)) {
+            return res.status(404).json({ error: 'Bucket not found' });
+        }
+        const bucketNames = new Map(buckets.map((bucket) => [bucket.id, bucket.name]));
+
+        const rows: Array<Array<string | number | null>> = [
+            ['bucket_id', 'bucket', 'occurred_at', 'entry_type', 'source_type', 'merchant_name', 'transaction_id', 'amount', 'balance'],
+        ];
+        const balances = new Map<string, number>();
+
+        for (let from = 0; ; from += PAGE_SIZE) {
+            let query = supabase
+                .from(Views.BUCKET_LEDGER_ENTRIES)
+                .select('id, bucket_id, entry_type, amount, occurred_at, source_type, transaction_id, merchant_name')
+                .eq('user_id', userId);
+            if (bucketId) {
+                query = query.eq('bucket_id', bucketId);
+            }
+
+            const { data, error } = await query
+                .order('occurred_at', { ascending: true })
+                .order('id', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) {
+                throw error;
+            }
+
+            const page = data ?? [];
+            for (const entry of page) {
+                // Running balance in cents so long ledgers don't drift
+                const balance = (balances.get(entry.bucket_id) ?? 0) + Math.round(Number(entry.amount) * 100);
+                balances.set(entry.bucket_id, balance);
+                rows.push([
+                    entry.bucket_id,
+                    bucketNames.get(entry.bucket_id) ?? null,
+                    entry.occurred_at,
+                    entry.entry_type,
+                    entry.source_type,
+                    entry.merchant_name,
+                    entry.transaction_id,
+                    Number(entry.amount),
+                    balance / 100,
+                ]);
+            }
+
+            if (page.length < PAGE_SIZE) {
+                break;
+            }
+        }
+
+        sendCsv(res, 'ledger.csv', toCsv(rows));
+    } catch (error) {
+        console.error('Error exporting ledger:', error);
+        res.status(500).json({
+            error: 'Failed to export ledger',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
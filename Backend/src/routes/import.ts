@@ -0,0 +1,74 @@
+/**
+ * Import Routes
+ * Bank statement import for accounts Plaid doesn't cover, and account archive restore
+ */
+
+import express from 'express';
+import { ArchiveError, restoreArchive } from '../services/archive';
+import {
+    commitStatementImport,
+    previewStatementImport,
+    StatementImportError,
+    StatementImportInput,
+} from '../services/statementImport';
+
+const router = express.Router();
+
+/**
+ * POST /import/statement
+ * Imports a CSV or OFX/QFX statement into a manual account:
+ * { format: 'csv' | 'ofx', content, account, mapping? (CSV only), commit? }.
+ * Without `commit: true` this is a preview: it returns every parsed row with
+ * its status (new or duplicate) and writes nothing. Send the same request
+ * with `commit: true` to insert the new rows.
+ */
+router.post('/statement', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const { format, content, account, mapping, commit } = req.body ?? {};
+        const input: StatementImportInput = { format, content, account, mapping };
+
+        if (commit === true) {
+            const result = await commitStatementImport(userId, input);
+            return res.json({ committed: true, ...result });
+        }
+
+        const preview = await previewStatementImport(userId, input);
+        res.json({ committed: false, ...preview });
+    } catch (error) {
+        if (error instanceof StatementImportError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error importing statement:', error);
+        res.status(500).json({
+            error: 'Failed to import statement',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * POST /import/archive
+ * Restores a GET /export archive (the request body) into this account, which
+ * must have no events, transactions or buckets yet. The events are replayed and
+ * the resulting balances compared with the ones recorded in the archive:
+ * `verified` is false and `mismatches` lists the differences if they don't match.
+ */
+router.post('/archive', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const result = await restoreArchive(userId, req.body);
+        res.json(result);
+    } catch (error) {
+        if (error instanceof ArchiveError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error('Error restoring archive:', error);
+        res.status(500).json({
+            error: 'Failed to restore archive',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,197 @@
+/**
+ * Merchant Mapping Routes
+ * CRUD for the rules that auto-categorize imported transactions
+ */
+
+import express from 'express';
+import { supabase, Tables } from '../db/supabase';
+
+const router = express.Router();
+
+const MAPPING_COLUMNS = 'id, merchant_contains, bucket_id, priority, created_at, updated_at';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates the writable fields of a mapping. Returns an error message, or null.
+ */
+async function validateMapping(userId: string, body: any, partial: boolean): Promise<string | null> {
+    const { merchant_contains, bucket_id, priority } = body ?? {};
+
+    if (merchant_contains !== undefined || !partial) {
+        if (typeof merchant_contains !== 'string' || !merchant_contains.trim() || merchant_contains.length > 255) {
+            return 'merchant_contains must be a non-empty string (max 255 characters)';
+        }
+    }
+    if (priority !== undefined && !Number.isInteger(priority)) {
+        return 'priority must be an integer';
+    }
+    if (bucket_id !== undefined || !partial) {
+        if (typeof bucket_id !== 'string') {
+            return 'bucket_id is required';
+        }
+        if (!UUID_PATTERN.test(bucket_id)) {
+            return 'Bucket not found';
+        }
+        const { data: bucket, error } = await supabase
+            .from(Tables.BUCKETS)
+            .select('id')
+            .eq('id', bucket_id)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) {
+            throw error;
+        }
+        if (!bucket) {
+            return 'Bucket not found';
+        }
+    }
+    return null;
+}
+
+/**
+ * GET /merchant-mappings
+ * Lists the user's mapping rules, highest priority (lowest number) first
+ */
+router.get('/', async (req, res) => {
+    try {
+        const { data, error } = await supabase
+            .from(Tables.MERCHANT_MAPPING_RULES)
+            .select(MAPPING_COLUMNS)
+            .eq('user_id', req.userId!)
+            .order('priority', { ascending: true })
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+
+        res.json({ mappings: data ?? [] });
+    } catch (error) {
+        console.error('Error fetching merchant mappings:', error);
+        res.status(500).json({
+            error: 'Failed to fetch merchant mappings',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * POST /merchant-mappings
+ * Creates a rule: { merchant_contains, bucket_id, priority? (default 5) }
+ */
+router.post('/', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const validationError = await validateMapping(userId, req.body, false);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { merchant_contains, bucket_id, priority } = req.body;
+        const { data, error } = await supabase
+            .from(Tables.MERCHANT_MAPPING_RULES)
+            .insert({
+                user_id: userId,
+                merchant_contains: merchant_contains.trim(),
+                bucket_id,
+                priority: priority ?? 5,
+            })
+            .select(MAPPING_COLUMNS)
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        res.json(data);
+    } catch (error) {
+        console.error('Error creating merchant mapping:', error);
+        res.status(500).json({
+            error: 'Failed to create merchant mapping',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * PATCH /merchant-mappings/:id
+ * Updates any of merchant_contains, bucket_id, priority
+ */
+router.patch('/:id', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        if (!UUID_PATTERN.test(req.params.id)) {
+            return res.status(404).json({ error: 'Merchant mapping not found' });
+        }
+        const validationError = await validateMapping(userId, req.body, true);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { merchant_contains, bucket_id, priority } = req.body ?? {};
+        const { data, error } = await supabase
+            .from(Tables.MERCHANT_MAPPING_RULES)
+            .update({
+                ...(merchant_contains !== undefined ? { merchant_contains: merchant_contains.trim() } : {}),
+                ...(bucket_id !== undefined ? { bucket_id } : {}),
+                ...(priority !== undefined ? { priority } : {}),
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', req.params.id)
+            .eq('user_id', userId)
+            .select(MAPPING_COLUMNS)
+            .maybeSingle();
+
+        if (error) {
+            throw error;
+        }
+        if (!data) {
+            return res.status(404).json({ error: 'Merchant mapping not found' });
+        }
+
+        res.json(data);
+    } catch (error) {
+        console.error('Error updating merchant mapping:', error);
+        res.status(500).json({
+            error: 'Failed to update merchant mapping',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * DELETE /merchant-mappings/:id
+ * Deletes a rule. Splits it already created are kept.
+ */
+router.delete('/:id', async (req, res) => {
+    try {
+        if (!UUID_PATTERN.test(req.params.id)) {
+            return res.status(404).json({ error: 'Merchant mapping not found' });
+        }
+
+        const { data, error } = await supabase
+            .from(Tables.MERCHANT_MAPPING_RULES)
+            .delete()
+            .eq('id', req.params.id)
+            .eq('user_id', req.userId!)
+            .select('id');
+
+        if (error) {
+            throw error;
+        }
+        if (!data || data.length === 0) {
+            return res.status(404).json({ error: 'Merchant mapping not found' });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting merchant mapping:', error);
+        res.status(500).json({
+            error: 'Failed to delete merchant mapping',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+/**
+ * Month Routes
+ * Month close (bucket rollover/reset processing) status and manual runs
+ */
+
+import express from 'express';
+import { supabase, Tables } from '../db/supabase';
+import { closeMonth, MonthCloseError } from '../services/monthClose';
+import { parseLimit } from '../utils/cursor';
+
+const router = express.Router();
+
+/**
+ * GET /months
+ * Lists month closes, newest month first
+ */
+router.get('/', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const limit = parseLimit(req.query.limit, 12, 120);
+
+        const { data, error } = await supabase
+            .from(Tables.MONTH_CLOSES)
+            .select('*')
+            .eq('user_id', userId)
+            .order('month', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        res.json({ closes: data ?? [] });
+    } catch (error) {
+        console.error('Error fetching month closes:', error);
+        res.status(500).json({
+            error: 'Failed to fetch month closes',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * POST /months/:month/close
+ * Closes a finished month (YYYY-MM). Months are closed automatically once they
+ * end; pass `rerun: true` to close an already closed month again, e.g. after
+ * late transactions. Later closed months are re-run with it.
+ */
+router.post('/:month/close', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const rerun = req.body?.rerun === true;
+
+        const closes = await closeMonth(userId, req.params.month, { rerun });
+        res.json({ closes });
+    } catch (error) {
+        if (error instanceof MonthCloseError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error('Error closing month:', error);
+        res.status(500).json({
+            error: 'Failed to close month',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
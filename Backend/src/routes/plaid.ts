@@ -4,72 +4,54 @@
  */
 
 import express from 'express';
-import { Configuration, PlaidApi, PlaidEnvironments } from 'plaid';
+import { CountryCode, LinkTokenCreateRequest, Products } from 'plaid';
 import { supabase, Tables } from '../db/supabase';
+import {
+    getPlaidErrorCode,
+    getStoredItem,
+    getStoredItems,
+    plaidClient,
+    recordItemError,
+    recordItemSuccess,
+    setItemStatus,
+    UNREADABLE_TOKEN_ERROR,
+} from '../services/plaid';
+import { appendServerEvents } from '../services/eventLog';
+import { syncUserTransactions, waitForItemSync } from '../services/transactionIngestion';
+import { encryptSecret } from '../utils/encryption';
 
 const router = express.Router();
 
-// Initialize Plaid client
-const configuration = new Configuration({
-    basePath: PlaidEnvironments[process.env.PLAID_ENVIRONMENT || 'sandbox'],
-    baseOptions: {
-        headers: {
-            'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID!,
-            'PLAID-SECRET': process.env.PLAID_SECRET!,
-        },
-    },
-});
-
-const plaidClient = new PlaidApi(configuration);
-
-type StoredPlaidItem = {
-    item_id: string;
-    access_token_encrypted: string;
-    institution_id: string | null;
-    institution_name: string | null;
-};
-
-async function getStoredItems(userId: string): Promise<StoredPlaidItem[]> {
-    const { data, error } = await supabase
-        .from(Tables.PLAID_ITEMS)
-        .select('item_id, access_token_encrypted, institution_id, institution_name')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-    
-    if (error) {
-        console.error('Error fetching Plaid items:', error.message);
-        return [];
-    }
-    
-    return data ?? [];
-}
-
-async function getStoredAccessToken(userId: string): Promise<string | null> {
-    const items = await getStoredItems(userId);
-    return items[0]?.access_token_encrypted ?? null;
-}
-
 /**
  * POST /plaid/create_link_token
- * Creates a Link token for Plaid Link flow
+ * Creates a Link token for Plaid Link flow.
+ * Pass item_id to start update mode and re-authenticate an existing item.
  */
 router.post('/create_link_token', async (req, res) => {
     try {
-        // TODO: Extract userId from auth middleware
-        const userId = process.env.DEV_USER_ID;
-        if (!userId) {
-            return res.status(500).json({ error: 'DEV_USER_ID is not set' });
-        }
+        const userId = req.userId!;
+        const { item_id } = req.body ?? {};
         
-        const request = {
+        const request: LinkTokenCreateRequest = {
             user: {
                 client_user_id: userId,
             },
             client_name: 'BucketPilot',
-            products: ['transactions'] as const,
-            country_codes: ['US'] as const,
-            language: 'en' as const,
+            country_codes: [CountryCode.Us],
+            language: 'en',
+            webhook: process.env.PLAID_WEBHOOK_URL || undefined,
         };
+
+        if (item_id) {
+            const item = await getStoredItem(item_id);
+            if (!item || item.user_id !== userId) {
+                return res.status(404).json({ error: 'Item not found' });
+            }
+            // Update mode: pass the existing access token instead of products
+            request.access_token = item.access_token;
+        } else {
+            request.products = [Products.Transactions];
+        }
         
         const response = await plaidClient.linkTokenCreate(request);
         
@@ -92,10 +74,7 @@ router.post('/create_link_token', async (req, res) => {
 router.post('/exchange_public_token', async (req, res) => {
     try {
         const { public_token } = req.body;
-        const userId = process.env.DEV_USER_ID; // TODO: From auth
-        if (!userId) {
-            return res.status(500).json({ error: 'DEV_USER_ID is not set' });
-        }
+        const userId = req.userId!;
         
         if (!public_token) {
             return res.status(400).json({ error: 'public_token is required' });
@@ -115,7 +94,7 @@ router.post('/exchange_public_token', async (req, res) => {
             if (institution_id) {
                 const instResponse = await plaidClient.institutionsGetById({
                     institution_id,
-                    country_codes: ['US'],
+                    country_codes: [CountryCode.Us],
                 });
                 institution_name = instResponse.data.institution.name ?? null;
             }
@@ -129,9 +108,11 @@ router.post('/exchange_public_token', async (req, res) => {
                 {
                     user_id: userId,
                     item_id,
-                    access_token_encrypted: access_token,
+                    access_token_encrypted: encryptSecret(access_token),
                     institution_id,
                     institution_name,
+                    status: 'healthy',
+                    error_code: null,
                 },
                 { onConflict: 'item_id' }
             );
@@ -156,49 +137,64 @@ router.post('/exchange_public_token', async (req, res) => {
 
 /**
  * GET /plaid/accounts
- * Fetches connected bank accounts
+ * Fetches connected bank accounts. Items that fail are reported with their
+ * status in `items` instead of failing the whole request.
  */
 router.get('/accounts', async (req, res) => {
     try {
-        const userId = process.env.DEV_USER_ID; // TODO: From auth
-        if (!userId) {
-            return res.status(500).json({ error: 'DEV_USER_ID is not set' });
-        }
+        const userId = req.userId!;
         
-        const items = await getStoredItems(userId);
-        if (items.length === 0 && !process.env.PLAID_ACCESS_TOKEN) {
+        const { items, unreadable } = await getStoredItems(userId);
+        if (items.length === 0 && unreadable.length === 0) {
             return res.status(404).json({ error: 'No connected account' });
         }
 
         const accounts: any[] = [];
-        const itemsToFetch =
-            items.length > 0
-                ? items
-                : [
-                      {
-                          item_id: 'env',
-                          access_token_encrypted: process.env.PLAID_ACCESS_TOKEN!,
-                          institution_id: null,
-                          institution_name: null,
-                      },
-                  ];
-
-        for (const item of itemsToFetch) {
-            const response = await plaidClient.accountsGet({
-                access_token: item.access_token_encrypted,
-            });
-            response.data.accounts.forEach((account) => {
-                accounts.push({
-                    ...account,
+        const itemResults: any[] = unreadable.map((item) => ({
+            item_id: item.item_id,
+            institution_id: item.institution_id,
+            institution_name: item.institution_name,
+            status: 'error',
+            error_code: UNREADABLE_TOKEN_ERROR,
+        }));
+
+        for (const item of items) {
+            try {
+                const response = await plaidClient.accountsGet({
+                    access_token: item.access_token,
+                });
+                await recordItemSuccess(item);
+                response.data.accounts.forEach((account) => {
+                    accounts.push({
+                        ...account,
+                        item_id: item.item_id,
+                        institution_id: item.institution_id,
+                        institution_name: item.institution_name,
+                    });
+                });
+                itemResults.push({
                     item_id: item.item_id,
                     institution_id: item.institution_id,
                     institution_name: item.institution_name,
+                    status: item.status,
+                    error_code: null,
                 });
-            });
+            } catch (itemError) {
+                console.error(`Error fetching accounts for item ${item.item_id}:`, itemError);
+                const status = await recordItemError(item.item_id, itemError);
+                itemResults.push({
+                    item_id: item.item_id,
+                    institution_id: item.institution_id,
+                    institution_name: item.institution_name,
+                    status,
+                    error_code: getPlaidErrorCode(itemError),
+                });
+            }
         }
         
         res.json({
             accounts,
+            items: itemResults,
         });
     } catch (error) {
         console.error('Error fetching accounts:', error);
@@ -209,22 +205,158 @@ router.get('/accounts', async (req, res) => {
     }
 });
 
+/**
+ * DELETE /plaid/items/:itemId
+ * Removes a bank connection: revokes it with Plaid and deletes the stored token.
+ * Pass transactions=purge to also delete the item's imported transactions
+ * (and their splits); the default, transactions=keep, leaves them in place.
+ */
+router.delete('/items/:itemId', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const { itemId } = req.params;
+        const mode = req.query.transactions ?? 'keep';
+
+        if (mode !== 'keep' && mode !== 'purge') {
+            return res.status(400).json({ error: 'transactions must be "keep" or "purge"' });
+        }
+
+        const item = await getStoredItem(itemId);
+        if (!item || item.user_id !== userId) {
+            return res.status(404).json({ error: 'Item not found' });
+        }
+
+        // Stop syncs first: one already talking to Plaid drops its results once it
+        // sees the status, and one already writing is waited for
+        await setItemStatus(itemId, 'removed');
+        await waitForItemSync(itemId);
+
+        // Plaid's account list covers accounts with no transactions yet; the
+        // stored transactions cover accounts Plaid no longer reports
+        const accountIds = new Set<string>();
+        try {
+            const accountsResponse = await plaidClient.accountsGet({ access_token: item.access_token });
+            accountsResponse.data.accounts.forEach((account) => accountIds.add(account.account_id));
+        } catch (plaidError) {
+            console.warn(`Could not fetch accounts of item ${itemId} before removing it:`, getPlaidErrorCode(plaidError));
+        }
+
+        try {
+            await plaidClient.itemRemove({ access_token: item.access_token });
+        } catch (plaidError) {
+            // Already gone on Plaid's side; still clean up our copy
+            const errorCode = getPlaidErrorCode(plaidError);
+            if (errorCode !== 'ITEM_NOT_FOUND' && errorCode !== 'INVALID_ACCESS_TOKEN') {
+                throw plaidError;
+            }
+        }
+
+        const { data: accountRows, error: accountsError } = await supabase
+            .from(Tables.TRANSACTIONS)
+            .select('account_id')
+            .eq('user_id', userId)
+            .eq('plaid_item_id', itemId);
+
+        if (accountsError) {
+            throw accountsError;
+        }
+        (accountRows ?? []).forEach((row) => accountIds.add(row.account_id));
+
+        let purgedTransactionIds: string[] = [];
+        if (mode === 'purge') {
+            // transaction_splits cascade with their transaction
+            const { data: purged, error: purgeError } = await supabase
+                .from(Tables.TRANSACTIONS)
+                .delete()
+                .eq('user_id', userId)
+                .eq('plaid_item_id', itemId)
+                .select('id');
+
+            if (purgeError) {
+                throw purgeError;
+            }
+            purgedTransactionIds = (purged ?? []).map((row) => row.id);
+        }
+
+        const { error: deleteError } = await supabase
+            .from(Tables.PLAID_ITEMS)
+            .delete()
+            .eq('item_id', itemId)
+            .eq('user_id', userId);
+
+        if (deleteError) {
+            throw deleteError;
+        }
+
+        await appendServerEvents(userId, [
+            {
+                eventType: 'plaid_item_removed',
+                payload: {
+                    itemId,
+                    institutionId: item.institution_id,
+                    institutionName: item.institution_name,
+                    accountIds: [...accountIds],
+                    transactionsPurged: mode === 'purge',
+                    purgedTransactionIds,
+                },
+            },
+        ]);
+
+        res.json({
+            success: true,
+            item_id: itemId,
+            account_ids: [...accountIds],
+            transactions_purged: purgedTransactionIds.length,
+        });
+    } catch (error) {
+        console.error('Error removing item:', error);
+        res.status(500).json({
+            error: 'Failed to remove item',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * POST /plaid/transactions/sync
+ * Runs an incremental /transactions/sync for each of the caller's items now,
+ * instead of waiting for the background ingestion job
+ */
+router.post('/transactions/sync', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const results = await syncUserTransactions(userId);
+
+        res.json({
+            items: results,
+        });
+    } catch (error) {
+        console.error('Error syncing transactions:', error);
+        res.status(500).json({
+            error: 'Failed to sync transactions',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
 /**
  * GET /plaid/transactions
- * Fetches transactions with cursor-based pagination
+ * Returns ingested transactions for a date window, in Plaid's response shape
+ * (positive amounts are outflows). Pass refresh=true to sync first.
  */
 router.get('/transactions', async (req, res) => {
     try {
-        const { cursor, start_date, end_date } = req.query;
-        const userId = process.env.DEV_USER_ID; // TODO: From auth
-        if (!userId) {
-            return res.status(500).json({ error: 'DEV_USER_ID is not set' });
-        }
+        const { start_date, end_date, refresh } = req.query;
+        const userId = req.userId!;
         
-        const items = await getStoredItems(userId);
-        if (items.length === 0 && !process.env.PLAID_ACCESS_TOKEN) {
+        const { items, unreadable } = await getStoredItems(userId);
+        if (items.length === 0 && unreadable.length === 0) {
             return res.status(404).json({ error: 'No connected account' });
         }
+
+        if (refresh === 'true') {
+            await syncUserTransactions(userId);
+        }
         
         // Default to last 30 days
         const endDate = end_date 
@@ -234,49 +366,45 @@ router.get('/transactions', async (req, res) => {
         const startDate = start_date
             ? new Date(start_date as string)
             : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-        
-        const transactions: any[] = [];
-        let totalTransactions = 0;
-        let nextCursor: string | null = null;
-
-        const itemsToFetch =
-            items.length > 0
-                ? items
-                : [
-                      {
-                          item_id: 'env',
-                          access_token_encrypted: process.env.PLAID_ACCESS_TOKEN!,
-                          institution_id: null,
-                          institution_name: null,
-                      },
-                  ];
-
-        for (const item of itemsToFetch) {
-            const response = await plaidClient.transactionsGet({
-                access_token: item.access_token_encrypted,
-                start_date: startDate.toISOString().split('T')[0],
-                end_date: endDate.toISOString().split('T')[0],
-                cursor: cursor as string | undefined,
-                options: {
-                    count: 500,
-                },
-            });
-            totalTransactions += response.data.total_transactions;
-            nextCursor = response.data.next_cursor ?? nextCursor;
-            response.data.transactions.forEach((transaction) => {
-                transactions.push({
-                    ...transaction,
-                    item_id: item.item_id,
-                    institution_id: item.institution_id,
-                    institution_name: item.institution_name,
-                });
-            });
+
+        const itemsById = new Map<string, { institution_id: string | null; institution_name: string | null }>(
+            [...items, ...unreadable].map((item) => [item.item_id, item])
+        );
+
+        const { data, error } = await supabase
+            .from(Tables.TRANSACTIONS)
+            .select('*')
+            .eq('user_id', userId)
+            .not('plaid_transaction_id', 'is', null)
+            .gte('date', startDate.toISOString().split('T')[0])
+            .lte('date', endDate.toISOString().split('T')[0])
+            .order('date', { ascending: false });
+
+        if (error) {
+            throw error;
         }
 
+        const transactions = (data ?? []).map((row) => {
+            const item = itemsById.get(row.plaid_item_id);
+            return {
+                transaction_id: row.plaid_transaction_id,
+                account_id: row.account_id,
+                name: row.description ?? row.merchant_name,
+                merchant_name: row.merchant_name,
+                amount: -Number(row.amount),
+                date: row.date,
+                category: row.category,
+                pending: row.is_pending,
+                item_id: row.plaid_item_id,
+                institution_id: item?.institution_id ?? null,
+                institution_name: item?.institution_name ?? null,
+            };
+        });
+
         res.json({
             transactions,
-            total_transactions: totalTransactions,
-            next_cursor: nextCursor,
+            total_transactions: transactions.length,
+            next_cursor: null,
         });
     } catch (error) {
         console.error('Error fetching transactions:', error);
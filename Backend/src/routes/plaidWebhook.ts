@@ -0,0 +1,57 @@
+/**
+ * Plaid Webhook Route
+ * Receives signed webhooks from Plaid (no API key; authenticated by JWT signature)
+ */
+
+import express from 'express';
+import {
+    handlePlaidWebhook,
+    verifyPlaidWebhook,
+    WebhookVerificationError,
+} from '../services/plaidWebhook';
+
+declare global {
+    namespace Express {
+        interface Request {
+            rawBody?: Buffer;
+        }
+    }
+}
+
+const router = express.Router();
+
+/**
+ * POST /plaid/webhook
+ * Verifies the Plaid-Verification header, then syncs or updates the item
+ */
+router.post('/', async (req, res) => {
+    try {
+        await verifyPlaidWebhook(req.rawBody ?? '', req.header('Plaid-Verification'));
+    } catch (error) {
+        if (error instanceof WebhookVerificationError) {
+            console.warn('Rejected Plaid webhook:', error.message);
+            return res.status(401).json({ error: 'Invalid webhook signature', message: error.message });
+        }
+        console.error('Error verifying Plaid webhook:', error);
+        return res.status(500).json({
+            error: 'Failed to verify webhook',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+
+    try {
+        const result = await handlePlaidWebhook(req.body);
+        res.json({
+            received: true,
+            result,
+        });
+    } catch (error) {
+        console.error('Error handling Plaid webhook:', error);
+        res.status(500).json({
+            error: 'Failed to handle webhook',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
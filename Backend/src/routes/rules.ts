@@ -0,0 +1,196 @@
+/**
+ * Funding Rule Routes
+ * Dry-run and execution of the server-side rules engine
+ */
+
+import express from 'express';
+import { supabase, Tables } from '../db/supabase';
+import { previewRulesForUser, RuleTrigger, runRules } from '../services/rulesEngine';
+import { roundMoney } from '../services/ledger';
+import { getUserTimeZone } from '../services/users';
+import { isValidTimeZone } from '../utils/calendar';
+import { parseLimit } from '../utils/cursor';
+
+const router = express.Router();
+
+const SIMPLE_TRIGGERS = ['scheduledDaily', 'scheduledWeekly', 'scheduledMonthly', 'manual'];
+
+class RuleRequestError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = 'RuleRequestError';
+    }
+}
+
+/**
+ * Builds the engine trigger from the request body, loading the income
+ * transaction for `incomeDetected`
+ */
+async function parseTrigger(userId: string, body: any): Promise<RuleTrigger> {
+    const trigger = body?.trigger;
+    if (!trigger || typeof trigger.type !== 'string') {
+        throw new RuleRequestError('trigger.type is required');
+    }
+
+    if (SIMPLE_TRIGGERS.includes(trigger.type)) {
+        return { type: trigger.type } as RuleTrigger;
+    }
+
+    if (trigger.type === 'balanceThreshold') {
+        if (typeof trigger.balance !== 'number') {
+            throw new RuleRequestError('trigger.balance must be a number');
+        }
+        return { type: 'balanceThreshold', balance: trigger.balance };
+    }
+
+    if (trigger.type === 'incomeDetected') {
+        if (typeof trigger.transaction_id !== 'string') {
+            throw new RuleRequestError('trigger.transaction_id is required');
+        }
+
+        const { data: transaction, error } = await supabase
+            .from(Tables.TRANSACTIONS)
+            .select('id, account_id, merchant_name, amount')
+            .eq('id', trigger.transaction_id)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) {
+            throw error;
+        }
+        if (!transaction) {
+            throw new RuleRequestError('Transaction not found', 404);
+        }
+        if (Number(transaction.amount) <= 0) {
+            throw new RuleRequestError('Transaction is not income');
+        }
+
+        return {
+            type: 'incomeDetected',
+            transaction: { ...transaction, amount: Number(transaction.amount) },
+        };
+    }
+
+    throw new RuleRequestError(`Unknown trigger type: ${trigger.type}`);
+}
+
+/**
+ * Reads `available_funds` and `timezone` (defaulting to the user's time zone)
+ */
+async function parseOptions(userId: string, body: any): Promise<{ availableFunds?: number; timeZone: string }> {
+    if (body?.available_funds !== undefined && typeof body.available_funds !== 'number') {
+        throw new RuleRequestError('available_funds must be a number');
+    }
+    if (body?.timezone !== undefined && (typeof body.timezone !== 'string' || !isValidTimeZone(body.timezone))) {
+        throw new RuleRequestError('timezone must be an IANA time zone');
+    }
+    return {
+        availableFunds: body?.available_funds,
+        timeZone: body?.timezone ?? (await getUserTimeZone(userId)),
+    };
+}
+
+function sendRuleError(res: express.Response, error: unknown, message: string) {
+    if (error instanceof RuleRequestError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${message}:`, error);
+    res.status(500).json({
+        error: message,
+        message: error instanceof Error ? error.message : 'Unknown error',
+    });
+}
+
+/**
+ * POST /rules/preview
+ * Dry run: returns the allocations enabled rules would make for a trigger.
+ * Writes nothing.
+ */
+router.post('/preview', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const trigger = await parseTrigger(userId, req.body);
+        const { availableFunds, proposals } = await previewRulesForUser(
+            userId,
+            trigger,
+            await parseOptions(userId, req.body)
+        );
+
+        res.json({
+            available_funds: availableFunds,
+            proposals,
+            total: roundMoney(proposals.reduce((sum, proposal) => sum + proposal.amount, 0)),
+        });
+    } catch (error) {
+        sendRuleError(res, error, 'Failed to preview rules');
+    }
+});
+
+/**
+ * POST /rules/run
+ * Evaluates the rules for a trigger and appends the resulting allocation_made
+ * events. Pass `idempotency_key` to make retries safe: a retry returns the
+ * first request's result without evaluating the rules again.
+ */
+router.post('/run', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const { idempotency_key } = req.body ?? {};
+        if (
+            idempotency_key !== undefined &&
+            (typeof idempotency_key !== 'string' || idempotency_key.length === 0 || idempotency_key.length > 200)
+        ) {
+            return res.status(400).json({ error: 'idempotency_key must be a string of 1 to 200 characters' });
+        }
+
+        const trigger = await parseTrigger(userId, req.body);
+        const options = await parseOptions(userId, req.body);
+        const result = await runRules(userId, () => previewRulesForUser(userId, trigger, options), idempotency_key);
+
+        res.json(result);
+    } catch (error) {
+        sendRuleError(res, error, 'Failed to run rules');
+    }
+});
+
+/**
+ * GET /rules/runs
+ * Lists scheduled rule runs, newest first: which rules fired and the
+ * allocations they produced. Paginate with `limit` (max 100) and `before`
+ * (a run_date).
+ */
+router.get('/runs', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const limit = parseLimit(req.query.limit, 30, 100);
+        const before = req.query.before as string | undefined;
+        if (before !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(before)) {
+            return res.status(400).json({ error: 'before must be a date (YYYY-MM-DD)' });
+        }
+
+        let query = supabase.from(Tables.RULE_RUNS).select('*').eq('user_id', userId);
+        if (before) {
+            query = query.lt('run_date', before);
+        }
+
+        const { data, error } = await query
+            .order('run_date', { ascending: false })
+            .order('started_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw error;
+        }
+
+        res.json({
+            runs: (data ?? []).map((run) => ({
+                ...run,
+                total: run.total === null ? null : Number(run.total),
+            })),
+        });
+    } catch (error) {
+        sendRuleError(res, error, 'Failed to fetch rule runs');
+    }
+});
+
+export default router;
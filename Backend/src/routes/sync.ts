@@ -5,51 +5,174 @@
 
 import express from "express";
 import { supabase, Tables, handleSupabaseError } from "../db/supabase";
+import { ValidatedEvent, validatePushedEvent } from "../events/validation";
+import {
+  findForeignBucketIds,
+  getProjectionFailures,
+  referencedBucketIds,
+} from "../services/projector";
 
 const router = express.Router();
 
+const PULL_PAGE_SIZE = 500;
+
+interface PushResult {
+  eventId: string | null;
+  status: "accepted" | "duplicate" | "rejected";
+  reason?: string;
+  id?: string;
+  sequence?: number;
+}
+
 /**
  * POST /sync/pushEvents
- * Pushes local events from iOS app to server
+ * Pushes local events from iOS app to server.
+ * Each event must carry a stable client `eventId`; re-pushing an event that
+ * was already stored is reported as a duplicate and does not insert again,
+ * so retried batches are a no-op. Payloads are validated against the event
+ * registry; invalid events are rejected individually with reasons, as are
+ * events that move money in another user's bucket.
  */
 router.post("/pushEvents", async (req, res) => {
   try {
     const { events } = req.body;
-    const userId = process.env.DEV_USER_ID; // TODO: From auth middleware
-    if (!userId) {
-      return res.status(500).json({ error: "DEV_USER_ID is not set" });
-    }
+    const userId = req.userId!;
 
     if (!Array.isArray(events)) {
       return res.status(400).json({ error: "events must be an array" });
     }
 
     if (events.length === 0) {
-      return res.json({ success: true, events: [] });
+      return res.json({ success: true, events: [], results: [], rejected: [] });
     }
 
+    const validated: Array<ValidatedEvent | null> = [];
+    const results: PushResult[] = events.map((event: any) => {
+      validated.push(null);
+      if (!event || typeof event !== "object" || Array.isArray(event)) {
+        return { eventId: null, status: "rejected", reason: "event must be an object" };
+      }
+      const eventId = event.eventId;
+      if (typeof eventId !== "string" || eventId.trim().length === 0) {
+        return { eventId: null, status: "rejected", reason: "eventId is required" };
+      }
+      if (eventId.length > 255) {
+        return { eventId, status: "rejected", reason: "eventId is too long" };
+      }
+      const validation = validatePushedEvent(event);
+      if (!validation.valid) {
+        return { eventId, status: "rejected", reason: validation.errors.join("; ") };
+      }
+      validated[validated.length - 1] = validation.event;
+      return { eventId, status: "accepted" };
+    });
+
+    // Events may only move money in the user's own buckets
+    const referenced = validated.map((valid) =>
+      valid ? referencedBucketIds(valid.eventType, valid.payload) : [],
+    );
+    const foreign = new Set(
+      await findForeignBucketIds(userId, referenced.flat()),
+    );
+    referenced.forEach((bucketIds, index) => {
+      const bucketId = bucketIds.find((id) => foreign.has(id));
+      if (bucketId) {
+        validated[index] = null;
+        results[index] = {
+          eventId: results[index].eventId,
+          status: "rejected",
+          reason: `Bucket ${bucketId} not found`,
+        };
+      }
+    });
+
     // Prepare events for insertion
-    const eventsToInsert = events.map((event: any) => ({
-      user_id: userId,
-      event_type: event.type || event.eventType,
-      timestamp: event.timestamp || new Date().toISOString(),
-      payload: event.payload || event,
-      device_id: event.deviceId || null,
-    }));
-
-    // Insert events into Supabase
-    const { data, error } = await supabase
-      .from(Tables.EVENTS)
-      .insert(eventsToInsert)
-      .select();
+    const eventsToInsert = events.flatMap((event: any, index: number) => {
+      const valid = validated[index];
+      return valid
+        ? [
+            {
+              user_id: userId,
+              client_event_id: event.eventId,
+              event_type: valid.eventType,
+              schema_version: valid.schemaVersion,
+              timestamp: valid.timestamp,
+              payload: valid.payload,
+              device_id: event.deviceId || null,
+            },
+          ]
+        : [];
+    });
 
-    if (error) {
-      throw error;
+    let inserted: any[] = [];
+    if (eventsToInsert.length > 0) {
+      // Conflicting (already stored) events are skipped and not returned
+      const { data, error } = await supabase
+        .from(Tables.EVENTS)
+        .upsert(eventsToInsert, {
+          onConflict: "user_id,client_event_id",
+          ignoreDuplicates: true,
+        })
+        .select();
+
+      if (error) {
+        throw error;
+      }
+      inserted = data || [];
+    }
+
+    const insertedByEventId = new Map(
+      inserted.map((row) => [row.client_event_id, row]),
+    );
+    const duplicateIds = results
+      .filter(
+        (result) =>
+          result.status === "accepted" &&
+          !insertedByEventId.has(result.eventId),
+      )
+      .map((result) => result.eventId as string);
+
+    const existingByEventId = new Map<string, any>();
+    if (duplicateIds.length > 0) {
+      const { data, error } = await supabase
+        .from(Tables.EVENTS)
+        .select("id, client_event_id, sequence")
+        .eq("user_id", userId)
+        .in("client_event_id", duplicateIds);
+
+      if (error) {
+        throw error;
+      }
+      (data || []).forEach((row) => existingByEventId.set(row.client_event_id, row));
+    }
+
+    // The same eventId twice in one batch is inserted once; later copies are duplicates
+    const seen = new Set<string>();
+    for (const result of results) {
+      if (result.status !== "accepted") {
+        continue;
+      }
+      const eventId = result.eventId as string;
+      const row = insertedByEventId.get(eventId);
+      if (row && !seen.has(eventId)) {
+        result.id = row.id;
+        result.sequence = row.sequence;
+      } else {
+        const existing = row ?? existingByEventId.get(eventId);
+        result.status = "duplicate";
+        result.id = existing?.id;
+        result.sequence = existing?.sequence;
+      }
+      seen.add(eventId);
     }
 
     res.json({
       success: true,
-      events: data || [],
+      events: inserted,
+      results,
+      rejected: results
+        .map((result, index) => ({ index, ...result }))
+        .filter((result) => result.status === "rejected"),
     });
   } catch (error) {
     console.error("Error pushing events:", error);
@@ -62,83 +185,47 @@ router.post("/pushEvents", async (req, res) => {
 
 /**
  * GET /sync/pullEvents
- * Pulls events from server since last sync cursor
+ * Pulls events with a server-assigned sequence greater than `sinceSequence`.
+ * The sequence is the only cursor: client timestamps are metadata and can be
+ * arbitrarily old for events pushed by a device that was offline. A user's
+ * events commit in sequence order (see assign_event_sequence in schema.sql),
+ * so no lower sequence can appear behind a cursor once it has moved on.
  */
 router.get("/pullEvents", async (req, res) => {
   try {
-    const { sinceTimestamp, sinceSequence } = req.query;
-    const userId = process.env.DEV_USER_ID; // TODO: From auth middleware
-    if (!userId) {
-      return res.status(500).json({ error: "DEV_USER_ID is not set" });
-    }
-
-    // Build query for events after cursor
-    if (sinceTimestamp) {
-      const timestamp = new Date(sinceTimestamp as string).toISOString();
-      const sequence = sinceSequence ? parseInt(sinceSequence as string) : 0;
+    const userId = req.userId!;
+    const sinceSequence = req.query.sinceSequence
+      ? Number(req.query.sinceSequence)
+      : 0;
 
-      // Get events: timestamp > cursorTimestamp OR (timestamp = cursorTimestamp AND sequence > cursorSequence)
-      // Supabase PostgREST filter syntax
-      const { data, error } = await supabase
-        .from(Tables.EVENTS)
-        .select("*")
-        .eq("user_id", userId)
-        .or(
-          `timestamp.gt.${timestamp},and(timestamp.eq.${timestamp},sequence.gt.${sequence})`,
-        )
-        .order("timestamp", { ascending: true })
-        .order("sequence", { ascending: true })
-        .limit(500);
-
-      if (error) {
-        throw error;
-      }
-
-      const lastEvent = data && data.length > 0 ? data[data.length - 1] : null;
-
-      return res.json({
-        events: data || [],
-        hasMore: data ? data.length === 500 : false,
-        nextCursor: lastEvent
-          ? {
-              timestamp: lastEvent.timestamp,
-              sequence: lastEvent.sequence,
-            }
-          : {
-              timestamp: new Date().toISOString(),
-              sequence: 0,
-            },
-      });
+    if (!Number.isSafeInteger(sinceSequence) || sinceSequence < 0) {
+      return res
+        .status(400)
+        .json({ error: "sinceSequence must be a non-negative integer" });
     }
 
-    // No cursor: get all events
     const { data, error } = await supabase
       .from(Tables.EVENTS)
       .select("*")
       .eq("user_id", userId)
-      .order("timestamp", { ascending: true })
+      .gt("sequence", sinceSequence)
       .order("sequence", { ascending: true })
-      .limit(500);
+      .limit(PULL_PAGE_SIZE + 1);
 
     if (error) {
       throw error;
     }
 
-    // Get the last event's cursor for next request
-    const lastEvent = data && data.length > 0 ? data[data.length - 1] : null;
+    const rows = data || [];
+    const events = rows.slice(0, PULL_PAGE_SIZE);
+    const lastEvent = events.length > 0 ? events[events.length - 1] : null;
 
     res.json({
-      events: data || [],
-      hasMore: data ? data.length === 500 : false,
-      nextCursor: lastEvent
-        ? {
-            timestamp: lastEvent.timestamp,
-            sequence: lastEvent.sequence,
-          }
-        : {
-            timestamp: new Date().toISOString(),
-            sequence: 0,
-          },
+      events,
+      hasMore: rows.length > PULL_PAGE_SIZE,
+      nextCursor: {
+        sequence: lastEvent ? lastEvent.sequence : sinceSequence,
+      },
     });
   } catch (error) {
     console.error("Error pulling events:", error);
@@ -149,4 +236,22 @@ router.get("/pullEvents", async (req, res) => {
   }
 });
 
+/**
+ * GET /sync/projectionFailures
+ * Events the server could not apply to its tables (for example an id already
+ * used by another account). They stay in the log but have no effect until
+ * fixed and the projection is rebuilt.
+ */
+router.get("/projectionFailures", async (req, res) => {
+  try {
+    res.json({ failures: await getProjectionFailures(req.userId!) });
+  } catch (error) {
+    console.error("Error loading projection failures:", error);
+    res.status(500).json({
+      error: "Failed to load projection failures",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 export default router;
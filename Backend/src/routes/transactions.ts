@@ -0,0 +1,193 @@
+/**
+ * Transaction Routes
+ * Searching stored transactions and splitting them across buckets
+ */
+
+import express from 'express';
+import { supabase, Views } from '../db/supabase';
+import {
+    getSplitsByTransaction,
+    replaceTransactionSplits,
+    SplitInput,
+    SplitValidationError,
+} from '../services/splits';
+import { decodeCursor, encodeCursor, parseLimit } from '../utils/cursor';
+
+const router = express.Router();
+
+const TRANSACTION_CURSOR_KEYS = ['date', 'id'] as const;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TRANSACTION_COLUMNS =
+    'id, plaid_transaction_id, plaid_item_id, account_id, merchant_name, amount, date, category, description, is_pending, created_at, bucket_ids, is_uncategorized';
+
+function parseBoolean(value: unknown): boolean | undefined {
+    if (value === 'true') {
+        return true;
+    }
+    if (value === 'false') {
+        return false;
+    }
+    return undefined;
+}
+
+/**
+ * GET /transactions
+ * Searches stored transactions, newest first. Filters (all optional, combined
+ * with AND): start_date, end_date, account_id, bucket_id, merchant (substring),
+ * q (full-text over merchant name and description), min_amount / max_amount
+ * (absolute value), direction (debit | credit), pending, uncategorized.
+ * include_splits=true adds each transaction's splits.
+ * Paginate with `limit` (max 200) and the returned `next_cursor`.
+ */
+router.get('/', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const query = req.query as Record<string, string | undefined>;
+        const limit = parseLimit(query.limit, 50, 200);
+
+        const cursor = query.cursor ? decodeCursor(query.cursor, TRANSACTION_CURSOR_KEYS) : null;
+        if (query.cursor && (!cursor || !DATE_PATTERN.test(cursor.date) || !UUID_PATTERN.test(cursor.id))) {
+            return res.status(400).json({ error: 'Invalid cursor' });
+        }
+
+        for (const key of ['start_date', 'end_date'] as const) {
+            if (query[key] !== undefined && !DATE_PATTERN.test(query[key]!)) {
+                return res.status(400).json({ error: `${key} must be a date (YYYY-MM-DD)` });
+            }
+        }
+        for (const key of ['min_amount', 'max_amount'] as const) {
+            if (query[key] !== undefined && !Number.isFinite(Number(query[key]))) {
+                return res.status(400).json({ error: `${key} must be a number` });
+            }
+        }
+        if (query.bucket_id !== undefined && !UUID_PATTERN.test(query.bucket_id)) {
+            return res.status(400).json({ error: 'bucket_id must be a UUID' });
+        }
+        if (query.direction !== undefined && !['debit', 'credit'].includes(query.direction)) {
+            return res.status(400).json({ error: 'direction must be debit or credit' });
+        }
+
+        let search = supabase.from(Views.TRANSACTION_SEARCH).select(TRANSACTION_COLUMNS).eq('user_id', userId);
+
+        if (query.start_date) {
+            search = search.gte('date', query.start_date);
+        }
+        if (query.end_date) {
+            search = search.lte('date', query.end_date);
+        }
+        if (query.account_id) {
+            search = search.eq('account_id', query.account_id);
+        }
+        if (query.bucket_id) {
+            search = search.contains('bucket_ids', [query.bucket_id]);
+        }
+        if (query.merchant) {
+            search = search.ilike('merchant_name', `%${query.merchant.replace(/[%_\\]/g, '\\$&')}%`);
+        }
+        if (query.q) {
+            search = search.textSearch('search_vector', query.q, { type: 'websearch', config: 'simple' });
+        }
+        if (query.min_amount !== undefined) {
+            search = search.gte('abs_amount', Number(query.min_amount));
+        }
+        if (query.max_amount !== undefined) {
+            search = search.lte('abs_amount', Number(query.max_amount));
+        }
+        if (query.direction === 'debit') {
+            search = search.lt('amount', 0);
+        } else if (query.direction === 'credit') {
+            search = search.gt('amount', 0);
+        }
+        const pending = parseBoolean(query.pending);
+        if (pending !== undefined) {
+            search = search.eq('is_pending', pending);
+        }
+        const uncategorized = parseBoolean(query.uncategorized);
+        if (uncategorized !== undefined) {
+            search = search.eq('is_uncategorized', uncategorized);
+        }
+
+        // Cursor values were validated above, so they are safe to embed in the filter
+        if (cursor) {
+            search = search.or(`date.lt.${cursor.date},and(date.eq.${cursor.date},id.lt.${cursor.id})`);
+        }
+
+        const { data, error } = await search
+            .order('date', { ascending: false })
+            .order('id', { ascending: false })
+            .limit(limit + 1);
+
+        if (error) {
+            throw error;
+        }
+
+        const rows = data ?? [];
+        const page = rows.slice(0, limit);
+        const splits = parseBoolean(query.include_splits)
+            ? await getSplitsByTransaction(page.map((row) => row.id))
+            : null;
+
+        const transactions = page.map((row) => ({
+            ...row,
+            amount: Number(row.amount),
+            ...(splits ? { splits: splits.get(row.id) ?? [] } : {}),
+        }));
+        const last = transactions[transactions.length - 1];
+
+        res.json({
+            transactions,
+            has_more: rows.length > limit,
+            next_cursor: rows.length > limit && last ? encodeCursor({ date: last.date, id: last.id }) : null,
+        });
+    } catch (error) {
+        console.error('Error searching transactions:', error);
+        res.status(500).json({
+            error: 'Failed to search transactions',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * PUT /transactions/:id/splits
+ * Replaces all splits of a transaction: { splits: [{ bucket_id, amount }] }.
+ * Amounts use the transaction's sign (negative for spending) and must add up
+ * to the transaction amount; an empty list marks it unassigned. Rejected if a
+ * bucket that doesn't allow negative balances would go below zero.
+ */
+router.put('/:id/splits', async (req, res) => {
+    try {
+        const userId = req.userId!;
+        const { splits } = req.body ?? {};
+
+        if (!UUID_PATTERN.test(req.params.id)) {
+            return res.status(404).json({ error: 'Transaction not found' });
+        }
+        if (!Array.isArray(splits) || splits.some((split) => typeof split !== 'object' || split === null)) {
+            return res.status(400).json({ error: 'splits must be an array of { bucket_id, amount }' });
+        }
+        if (splits.some((split) => split.bucket_id != null && typeof split.bucket_id !== 'string')) {
+            return res.status(400).json({ error: 'bucket_id must be a string or null' });
+        }
+
+        const input: SplitInput[] = splits.map((split) => ({
+            bucket_id: split.bucket_id ?? null,
+            amount: split.amount,
+        }));
+
+        const saved = await replaceTransactionSplits(userId, req.params.id, input);
+        res.json({ transaction_id: req.params.id, splits: saved });
+    } catch (error) {
+        if (error instanceof SplitValidationError) {
+            return res.status(error.status).json({ error: error.message, errors: error.errors });
+        }
+        console.error('Error updating splits:', error);
+        res.status(500).json({
+            error: 'Failed to update splits',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
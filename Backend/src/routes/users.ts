@@ -0,0 +1,71 @@
+/**
+ * User Routes
+ * Settings for the calling user
+ */
+
+import express from 'express';
+import { supabase, Tables } from '../db/supabase';
+import { isValidTimeZone } from '../utils/calendar';
+
+const router = express.Router();
+
+/**
+ * GET /users/me
+ * Returns the calling user's settings
+ */
+router.get('/me', async (req, res) => {
+    try {
+        const { data, error } = await supabase
+            .from(Tables.USERS)
+            .select('id, email, timezone, created_at')
+            .eq('id', req.userId!)
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        res.json(data);
+    } catch (error) {
+        console.error('Error fetching user:', error);
+        res.status(500).json({
+            error: 'Failed to fetch user',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * PATCH /users/me
+ * Updates the calling user's settings. `timezone` (IANA name) sets the
+ * calendar scheduled funding rules run on.
+ */
+router.patch('/me', async (req, res) => {
+    try {
+        const { timezone } = req.body ?? {};
+        if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+            return res.status(400).json({ error: 'timezone must be an IANA time zone' });
+        }
+
+        const { data, error } = await supabase
+            .from(Tables.USERS)
+            .update({ timezone, updated_at: new Date().toISOString() })
+            .eq('id', req.userId!)
+            .select('id, email, timezone, created_at')
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        res.json(data);
+    } catch (error) {
+        console.error('Error updating user:', error);
+        res.status(500).json({
+            error: 'Failed to update user',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
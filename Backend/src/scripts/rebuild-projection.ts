@@ -0,0 +1,52 @@
+/**
+ * Rebuilds the relational projection (buckets, allocations, splits, rules)
+ * from the events log, starting again at sequence zero.
+ *
+ * Run with: npm run rebuild-projection -- <userId>
+ *       or: npm run rebuild-projection -- --all
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { supabase, Tables } from '../db/supabase';
+import { rebuildUserProjection } from '../services/projector';
+
+async function main() {
+    const [target] = process.argv.slice(2);
+    if (!target) {
+        console.error('Usage: npm run rebuild-projection -- <userId> | --all');
+        process.exit(1);
+    }
+
+    let userIds = [target];
+    if (target === '--all') {
+        const { data, error } = await supabase.from(Tables.USERS).select('id');
+        if (error) {
+            throw error;
+        }
+        userIds = (data ?? []).map((user) => user.id);
+    }
+
+    let failed = 0;
+    for (const userId of userIds) {
+        const result = await rebuildUserProjection(userId);
+        failed += result.failed;
+        console.log(
+            `Rebuilt ${userId}: ${result.applied} applied, ${result.failed} rejected, up to sequence ${result.last_sequence}`
+        );
+        for (const failure of result.rejected) {
+            console.log(`  sequence ${failure.sequence} (${failure.event_type} ${failure.event_id}): ${failure.error}`);
+        }
+    }
+
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error('Rebuild failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,96 @@
+/**
+ * Re-encrypts stored Plaid access tokens with the active encryption key.
+ * Also encrypts legacy plaintext rows.
+ *
+ * Run with: npm run reencrypt-tokens [-- --dry-run]
+ *
+ * To rotate keys: move the current key into ENCRYPTION_PREVIOUS_KEYS, set the
+ * new ENCRYPTION_KEY / ENCRYPTION_KEY_ID, run this command, then drop the old
+ * key once it reports nothing left to migrate.
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { supabase, supabaseAdmin, Tables } from '../db/supabase';
+import {
+    decryptSecret,
+    encryptSecret,
+    getActiveKeyId,
+    getKeyId,
+    isEncrypted,
+} from '../utils/encryption';
+
+const BATCH_SIZE = 100;
+
+async function main() {
+    const dryRun = process.argv.includes('--dry-run');
+    const db = supabaseAdmin ?? supabase;
+    const activeKeyId = getActiveKeyId();
+
+    let offset = 0;
+    let migrated = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    while (true) {
+        const { data, error } = await db
+            .from(Tables.PLAID_ITEMS)
+            .select('id, item_id, access_token_encrypted')
+            .order('id', { ascending: true })
+            .range(offset, offset + BATCH_SIZE - 1);
+
+        if (error) {
+            throw error;
+        }
+
+        const rows = data ?? [];
+        for (const row of rows) {
+            const stored: string = row.access_token_encrypted;
+            if (getKeyId(stored) === activeKeyId) {
+                skipped += 1;
+                continue;
+            }
+
+            try {
+                const plaintext = isEncrypted(stored) ? decryptSecret(stored) : stored;
+                if (!dryRun) {
+                    // Guard on the old value so a concurrent relink isn't overwritten
+                    const { error: updateError } = await db
+                        .from(Tables.PLAID_ITEMS)
+                        .update({
+                            access_token_encrypted: encryptSecret(plaintext),
+                            updated_at: new Date().toISOString(),
+                        })
+                        .eq('id', row.id)
+                        .eq('access_token_encrypted', stored);
+
+                    if (updateError) {
+                        throw updateError;
+                    }
+                }
+                migrated += 1;
+                console.log(`${dryRun ? 'Would migrate' : 'Migrated'} item ${row.item_id} (${getKeyId(stored) ?? 'plaintext'} -> ${activeKeyId})`);
+            } catch (rowError) {
+                failed += 1;
+                console.error(`Failed to migrate item ${row.item_id}:`, rowError instanceof Error ? rowError.message : rowError);
+            }
+        }
+
+        if (rows.length < BATCH_SIZE) {
+            break;
+        }
+        offset += BATCH_SIZE;
+    }
+
+    console.log(`Done: ${migrated} ${dryRun ? 'to migrate' : 'migrated'}, ${skipped} already on ${activeKeyId}, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error('Re-encryption failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -14,6 +14,21 @@ dotenv.config();
 import plaidRoutes from './routes/plaid';
 import syncRoutes from './routes/sync';
 import aiRoutes from './routes/ai';
+import authRoutes from './routes/auth';
+import bucketRoutes from './routes/buckets';
+import ruleRoutes from './routes/rules';
+import userRoutes from './routes/users';
+import monthRoutes from './routes/months';
+import merchantMappingRoutes from './routes/merchantMappings';
+import transactionRoutes from './routes/transactions';
+import importRoutes from './routes/import';
+import exportRoutes from './routes/export';
+import plaidWebhookRoutes from './routes/plaidWebhook';
+import { requireApiKey } from './middleware/auth';
+import { startTransactionIngestionJob } from './services/transactionIngestion';
+import { startProjectorJob } from './services/projector';
+import { startRuleSchedulerJob } from './services/ruleScheduler';
+import { startMonthCloseJob } from './services/monthClose';
 import { supabase } from './db/supabase';
 
 // Verify Supabase connection on startup
@@ -34,7 +49,16 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+const parseJson = express.json({
+    // Keep the raw body for webhook signature verification
+    verify: (req, res, buf) => {
+        (req as express.Request).rawBody = buf;
+    },
+});
+// Statement imports and archive restores send whole files in the body; only
+// /import accepts large bodies, and only once the API key has been checked
+const parseLargeJson = express.json({ limit: '50mb' });
+app.use((req, res, next) => (/^\/import(\/|$)/.test(req.path) ? next() : parseJson(req, res, next)));
 
 // Root route
 app.get('/', (req, res) => {
@@ -45,9 +69,18 @@ app.get('/', (req, res) => {
         timestamp: new Date().toISOString(),
         endpoints: {
             health: '/health',
+            auth: '/auth/*',
             plaid: '/plaid/*',
             sync: '/sync/*',
-            ai: '/ai/*'
+            ai: '/ai/*',
+            buckets: '/buckets/*',
+            rules: '/rules/*',
+            users: '/users/*',
+            months: '/months/*',
+            merchantMappings: '/merchant-mappings/*',
+            transactions: '/transactions/*',
+            import: '/import/*',
+            export: '/export/*'
         },
         documentation: 'See README.md for API documentation'
     });
@@ -63,9 +96,19 @@ app.get('/health', (req, res) => {
 });
 
 // Routes
-app.use('/plaid', plaidRoutes);
-app.use('/sync', syncRoutes);
-app.use('/ai', aiRoutes);
+app.use('/auth', authRoutes);
+app.use('/plaid/webhook', plaidWebhookRoutes);
+app.use('/plaid', requireApiKey, plaidRoutes);
+app.use('/sync', requireApiKey, syncRoutes);
+app.use('/ai', requireApiKey, aiRoutes);
+app.use('/buckets', requireApiKey, bucketRoutes);
+app.use('/rules', requireApiKey, ruleRoutes);
+app.use('/users', requireApiKey, userRoutes);
+app.use('/months', requireApiKey, monthRoutes);
+app.use('/merchant-mappings', requireApiKey, merchantMappingRoutes);
+app.use('/transactions', requireApiKey, transactionRoutes);
+app.use('/import', requireApiKey, parseLargeJson, importRoutes);
+app.use('/export', requireApiKey, exportRoutes);
 
 // Error handling
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -85,4 +128,9 @@ app.listen(PORT, () => {
     console.log(`🚀 BucketPilot backend server running on port ${PORT}`);
     console.log(`📦 Environment: ${process.env.NODE_ENV || 'development'}`);
     console.log(`🗄️  Supabase: ${process.env.SUPABASE_URL || 'Not configured'}`);
+
+    startTransactionIngestionJob();
+    startProjectorJob();
+    startRuleSchedulerJob();
+    startMonthCloseJob();
 });
@@ -0,0 +1,258 @@
+/**
+ * AI Action Validation
+ * Field schemas for every copilot action type, plus semantic checks against
+ * the budget the command was made with: referenced buckets must exist, amounts
+ * must be positive whole cents, allocations can't exceed the unassigned balance,
+ * moves can't overdraw a bucket and bucket names must stay unique.
+ *
+ * Actions are checked in order against a running copy of the budget, so a
+ * proposal that only fails because of an earlier action in the same reply
+ * (two allocations that together overspend, a move from a bucket deleted just
+ * before) is caught too.
+ */
+
+import { bucketFields, FieldSpec, requireFields, ruleFields } from '../events/registry';
+import { validateFields } from '../events/validation';
+
+const money: FieldSpec = { type: 'number', min: 0.01 };
+
+export const AI_ACTION_SCHEMAS: Record<string, Record<string, FieldSpec>> = {
+    create_bucket: requireFields(bucketFields, ['name']),
+    update_bucket: {
+        bucketId: { type: 'uuid', required: true },
+        ...bucketFields,
+    },
+    delete_bucket: {
+        bucketId: { type: 'uuid', required: true },
+    },
+    allocate: {
+        bucketId: { type: 'uuid', required: true },
+        amount: { ...money, required: true },
+    },
+    move: {
+        fromBucketId: { type: 'uuid', required: true },
+        toBucketId: { type: 'uuid', required: true },
+        amount: { ...money, required: true },
+    },
+    create_rule: requireFields(ruleFields, ['name', 'triggerType', 'actions']),
+    update_rule: {
+        ruleId: { type: 'uuid', required: true },
+        ...ruleFields,
+    },
+    create_merchant_mapping: {
+        merchantContains: { type: 'string', required: true, maxLength: 255 },
+        bucketId: { type: 'uuid', required: true },
+        priority: { type: 'integer', min: 1, max: 10 },
+    },
+};
+
+export const AI_ACTION_TYPES = Object.keys(AI_ACTION_SCHEMAS);
+
+export type ActionErrorCode =
+    | 'invalid_field'
+    | 'invalid_amount'
+    | 'unknown_bucket'
+    | 'unknown_rule'
+    | 'same_bucket'
+    | 'insufficient_funds'
+    | 'duplicate_name';
+
+export interface ActionError {
+    code: ActionErrorCode;
+    field: string | null;
+    message: string;
+}
+
+export interface RejectedAction {
+    index: number; // position in the model's reply
+    action: Record<string, any>;
+    errors: ActionError[];
+}
+
+export interface ActionValidationContext {
+    unassignedBalance: number;
+    buckets: Array<{ id: string; name: string; available: number }>;
+    // When present, update_rule must name one of these
+    rules?: Array<{ id: string; name: string }>;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+function isWholeCents(value: number): boolean {
+    return Math.abs(value * 100 - toCents(value)) < 1e-6;
+}
+
+function schemaErrors(action: Record<string, any>, fields: Record<string, FieldSpec>): ActionError[] {
+    return validateFields(action, fields, 'action').map((message) => ({
+        code: 'invalid_field',
+        field: message.match(/^action\.([^\s]+)/)?.[1] ?? null,
+        message,
+    }));
+}
+
+/**
+ * One line per action type listing its fields, for the model's instructions
+ */
+export function describeActionSchemas(): string {
+    return Object.entries(AI_ACTION_SCHEMAS)
+        .map(([type, fields]) => {
+            const described = Object.entries(fields).map(([name, spec]) => {
+                const kind = spec.enum ? spec.enum.join('|') : spec.type;
+                return `${name}${spec.required ? '' : '?'}: ${kind}`;
+            });
+            return `${type} { ${described.join(', ')} }`;
+        })
+        .join('; ');
+}
+
+/**
+ * Splits proposed actions into those that can be applied to the budget and
+ * those that can't, with the reasons. Pure.
+ */
+export function validateProposedActions<T extends Record<string, any>>(
+    actions: T[],
+    context: ActionValidationContext
+): { valid: T[]; rejected: RejectedAction[] } {
+    const valid: T[] = [];
+    const rejected: RejectedAction[] = [];
+
+    // Running budget: applied actions update it for the ones after them
+    let unassigned = toCents(context.unassignedBalance);
+    const buckets = new Map(
+        context.buckets.map((bucket) => [bucket.id, { name: bucket.name, available: toCents(bucket.available) }])
+    );
+    const ruleIds = context.rules ? new Set(context.rules.map((rule) => rule.id)) : null;
+
+    const nameTaken = (name: string, exceptId?: string) => {
+        const normalized = name.trim().toLowerCase();
+        return [...buckets].some(([id, bucket]) => id !== exceptId && bucket.name.trim().toLowerCase() === normalized);
+    };
+
+    actions.forEach((action, index) => {
+        const schema = AI_ACTION_SCHEMAS[action.type];
+        if (!schema) {
+            rejected.push({
+                index,
+                action,
+                errors: [{ code: 'invalid_field', field: 'type', message: `Unsupported action type: ${action.type}` }],
+            });
+            return;
+        }
+
+        const errors = schemaErrors(action, schema);
+        for (const field of ['amount', 'targetAmount', 'rolloverCap'] as const) {
+            if (typeof action[field] === 'number' && !isWholeCents(action[field])) {
+                errors.push({ code: 'invalid_amount', field, message: `action.${field} must be in whole cents` });
+            }
+        }
+        if (errors.length > 0) {
+            rejected.push({ index, action, errors });
+            return;
+        }
+
+        const requireBucket = (field: string) => {
+            const bucket = buckets.get(action[field]);
+            if (!bucket) {
+                errors.push({ code: 'unknown_bucket', field, message: `No bucket with id ${action[field]}` });
+            }
+            return bucket;
+        };
+        const amount = typeof action.amount === 'number' ? toCents(action.amount) : 0;
+
+        switch (action.type) {
+            case 'create_bucket':
+                if (action.name.trim().length === 0) {
+                    errors.push({ code: 'invalid_field', field: 'name', message: 'action.name must not be empty' });
+                } else if (nameTaken(action.name)) {
+                    errors.push({
+                        code: 'duplicate_name',
+                        field: 'name',
+                        message: `A bucket named "${action.name}" already exists`,
+                    });
+                }
+                break;
+            case 'update_bucket':
+                requireBucket('bucketId');
+                if (typeof action.name === 'string' && action.name.trim().length === 0) {
+                    errors.push({ code: 'invalid_field', field: 'name', message: 'action.name must not be empty' });
+                } else if (typeof action.name === 'string' && nameTaken(action.name, action.bucketId)) {
+                    errors.push({
+                        code: 'duplicate_name',
+                        field: 'name',
+                        message: `A bucket named "${action.name}" already exists`,
+                    });
+                }
+                break;
+            case 'delete_bucket':
+            case 'create_merchant_mapping':
+                requireBucket('bucketId');
+                break;
+            case 'allocate':
+                if (requireBucket('bucketId') && amount > unassigned) {
+                    errors.push({
+                        code: 'insufficient_funds',
+                        field: 'amount',
+                        message: `Only ${(unassigned / 100).toFixed(2)} is unassigned`,
+                    });
+                }
+                break;
+            case 'move': {
+                const from = requireBucket('fromBucketId');
+                const to = requireBucket('toBucketId');
+                if (action.fromBucketId === action.toBucketId) {
+                    errors.push({ code: 'same_bucket', field: 'toBucketId', message: 'Cannot move money to the same bucket' });
+                } else if (from && to && amount > from.available) {
+                    errors.push({
+                        code: 'insufficient_funds',
+                        field: 'amount',
+                        message: `"${from.name}" only has ${(from.available / 100).toFixed(2)} available`,
+                    });
+                }
+                break;
+            }
+            case 'create_rule':
+            case 'update_rule':
+                if (action.type === 'update_rule' && ruleIds && !ruleIds.has(action.ruleId)) {
+                    errors.push({ code: 'unknown_rule', field: 'ruleId', message: `No rule with id ${action.ruleId}` });
+                }
+                (action.actions ?? []).forEach((ruleAction: Record<string, any>, actionIndex: number) => {
+                    if (!buckets.has(ruleAction.bucketId)) {
+                        errors.push({
+                            code: 'unknown_bucket',
+                            field: `actions[${actionIndex}].bucketId`,
+                            message: `No bucket with id ${ruleAction.bucketId}`,
+                        });
+                    }
+                });
+                break;
+        }
+
+        if (errors.length > 0) {
+            rejected.push({ index, action, errors });
+            return;
+        }
+
+        // Apply the action to the running budget
+        if (action.type === 'update_bucket' && typeof action.name === 'string') {
+            buckets.get(action.bucketId)!.name = action.name;
+        } else if (action.type === 'delete_bucket') {
+            // What returns to the unassigned pool depends on the bucket's history,
+            // so later actions aren't allowed to count on it
+            buckets.delete(action.bucketId);
+        } else if (action.type === 'allocate') {
+            unassigned -= amount;
+            buckets.get(action.bucketId)!.available += amount;
+        } else if (action.type === 'move') {
+            buckets.get(action.fromBucketId)!.available -= amount;
+            buckets.get(action.toBucketId)!.available += amount;
+        }
+        // New buckets have no id until applied, so later actions can't refer to them
+        if (action.type === 'create_bucket') {
+            buckets.set(`new:${index}`, { name: action.name, available: 0 });
+        }
+
+        valid.push(action);
+    });
+
+    return { valid, rejected };
+}
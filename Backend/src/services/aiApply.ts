@@ -0,0 +1,308 @@
+/**
+ * Applying AI Copilot Actions
+ * Turns accepted copilot proposals into typed events, so clients don't each
+ * have to implement what `allocate` or `create_rule` means.
+ *
+ * A batch is applied all-or-nothing in one database call. It is refused when a
+ * proposal has gone stale: a balance it depends on differs from the one it was
+ * proposed against, or it no longer validates against the current budget.
+ * Balances are checked after projecting the user's events, and the
+ * database call fails if money moved in the event log after the projection,
+ * so two applies can't both spend the same balance.
+ * Every event's client_event_id is `ai-action:<action id>:<n>`, and allocations
+ * carry sourceType `ai` with the action id as sourceId, so each change can be
+ * traced back to the turn (and command) that proposed it.
+ */
+
+import crypto from 'crypto';
+import { supabase } from '../db/supabase';
+import { bucketFields, ruleFields } from '../events/registry';
+import { ActionValidationContext, validateProposedActions } from './aiActions';
+import { getActionValidationContext } from './aiContext';
+import { AISessionTurn, getSession, getSessionTurns } from './aiSessions';
+import { projectUserEventsNow } from './projector';
+
+const DEFAULT_RULE_PRIORITY = 5;
+// Actions whose validity depends on a balance
+const BALANCE_ACTIONS = new Set(['allocate', 'move', 'delete_bucket']);
+
+type ProposedAction = AISessionTurn['actions'][number];
+
+export class AIApplyError extends Error {
+    constructor(message: string, public status: number = 400, public details?: unknown) {
+        super(message);
+        this.name = 'AIApplyError';
+    }
+}
+
+export interface StaleAction {
+    action_id: string;
+    bucket_id: string | null; // null = unassigned balance
+    proposed_balance: number | null; // null = not part of the proposal's budget
+    current_balance: number | null; // null = bucket no longer exists
+}
+
+export interface ActionEvent {
+    clientEventId: string;
+    eventType: string;
+    timestamp: string;
+    payload: Record<string, any>;
+}
+
+export interface ActionMerchantMapping {
+    id: string;
+    merchantContains: string;
+    bucketId: string;
+    priority?: number;
+}
+
+export interface ActionApplication {
+    events: ActionEvent[];
+    merchantMappings: ActionMerchantMapping[];
+    // Id of the bucket, rule or merchant mapping the action created
+    createdId: string | null;
+}
+
+export interface AppliedAction {
+    action_id: string;
+    type: string;
+    turn_id: string;
+    command: string;
+    event_ids: string[];
+    created_id: string | null;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+function pickFields(action: ProposedAction, fields: Record<string, unknown>): Record<string, any> {
+    const picked: Record<string, any> = {};
+    for (const key of Object.keys(fields)) {
+        if (action[key] !== undefined) {
+            picked[key] = action[key];
+        }
+    }
+    return picked;
+}
+
+/**
+ * Translates a validated action into the events (and merchant mappings, which
+ * are not event-sourced) that carry it out. Pure apart from generating ids.
+ */
+export function actionToEvents(action: ProposedAction, timestamp: string): ActionApplication {
+    const events: Array<Omit<ActionEvent, 'clientEventId' | 'timestamp'>> = [];
+    const merchantMappings: ActionMerchantMapping[] = [];
+    let createdId: string | null = null;
+
+    const allocation = (bucketId: string, amount: number) => ({
+        eventType: 'allocation_made',
+        payload: {
+            id: crypto.randomUUID(),
+            bucketId,
+            amount,
+            sourceType: 'ai',
+            sourceId: action.id,
+            timestamp,
+        },
+    });
+
+    switch (action.type) {
+        case 'create_bucket':
+            createdId = crypto.randomUUID();
+            events.push({ eventType: 'bucket_created', payload: { id: createdId, ...pickFields(action, bucketFields) } });
+            break;
+        case 'update_bucket':
+            events.push({
+                eventType: 'bucket_updated',
+                payload: { id: action.bucketId, ...pickFields(action, bucketFields) },
+            });
+            break;
+        case 'delete_bucket':
+            events.push({ eventType: 'bucket_deleted', payload: { id: action.bucketId } });
+            break;
+        case 'allocate':
+            events.push(allocation(action.bucketId, action.amount));
+            break;
+        case 'move':
+            events.push(allocation(action.fromBucketId, -action.amount), allocation(action.toBucketId, action.amount));
+            break;
+        case 'create_rule':
+            createdId = crypto.randomUUID();
+            events.push({
+                eventType: 'rule_created',
+                payload: {
+                    id: createdId,
+                    enabled: true,
+                    priority: DEFAULT_RULE_PRIORITY,
+                    ...pickFields(action, ruleFields),
+                },
+            });
+            break;
+        case 'update_rule':
+            events.push({ eventType: 'rule_updated', payload: { id: action.ruleId, ...pickFields(action, ruleFields) } });
+            break;
+        case 'create_merchant_mapping':
+            createdId = crypto.randomUUID();
+            merchantMappings.push({
+                id: createdId,
+                merchantContains: action.merchantContains,
+                bucketId: action.bucketId,
+                priority: action.priority,
+            });
+            break;
+        default:
+            throw new AIApplyError(`Unsupported action type: ${action.type}`);
+    }
+
+    return {
+        events: events.map((event, index) => ({
+            ...event,
+            clientEventId: `ai-action:${action.id}:${index}`,
+            timestamp,
+        })),
+        merchantMappings,
+        createdId,
+    };
+}
+
+/**
+ * Returns the balances an action depends on that have changed since it was
+ * proposed. Only actions that move money (or delete a bucket holding it) depend
+ * on balances. Pure.
+ */
+export function findStaleBalances(
+    action: ProposedAction,
+    proposed: ActionValidationContext,
+    current: ActionValidationContext
+): StaleAction[] {
+    const stale: StaleAction[] = [];
+    const proposedBuckets = new Map(proposed.buckets.map((bucket) => [bucket.id, bucket.available]));
+    const currentBuckets = new Map(current.buckets.map((bucket) => [bucket.id, bucket.available]));
+
+    const compare = (bucketId: string | null) => {
+        const before = bucketId === null ? proposed.unassignedBalance : proposedBuckets.get(bucketId) ?? null;
+        const now = bucketId === null ? current.unassignedBalance : currentBuckets.get(bucketId) ?? null;
+        if (before === null || now === null || toCents(before) !== toCents(now)) {
+            stale.push({ action_id: action.id, bucket_id: bucketId, proposed_balance: before, current_balance: now });
+        }
+    };
+
+    switch (action.type) {
+        case 'allocate':
+            compare(null);
+            compare(action.bucketId);
+            break;
+        case 'move':
+            compare(action.fromBucketId);
+            compare(action.toBucketId);
+            break;
+        case 'delete_bucket':
+            compare(action.bucketId);
+            break;
+    }
+    return stale;
+}
+
+/**
+ * Applies accepted actions of a session, in the order they were proposed, as
+ * one atomic batch. Marks them accepted on their turns.
+ */
+export async function applyAIActions(
+    userId: string,
+    sessionId: string,
+    actionIds: string[]
+): Promise<AppliedAction[]> {
+    await getSession(userId, sessionId);
+    const turns = await getSessionTurns(sessionId);
+
+    const requested = new Set(actionIds);
+    const selected: Array<{ turn: AISessionTurn; action: ProposedAction }> = [];
+    for (const turn of turns) {
+        for (const action of turn.actions) {
+            if (requested.delete(action.id)) {
+                selected.push({ turn, action });
+            }
+        }
+    }
+
+    if (requested.size > 0) {
+        throw new AIApplyError(`Actions not proposed in this session: ${[...requested].join(', ')}`, 404);
+    }
+    const alreadyApplied = selected.filter(({ turn, action }) => turn.applied_events?.[action.id]);
+    if (alreadyApplied.length > 0) {
+        throw new AIApplyError('Some actions were already applied', 409, {
+            action_ids: alreadyApplied.map(({ action }) => action.id),
+        });
+    }
+
+    // Project everything already in the log (not just what an in-flight run picked up),
+    // so balances include every committed change
+    const { last_sequence } = await projectUserEventsNow(userId);
+    const current = await getActionValidationContext(userId);
+
+    const stale = selected.flatMap(({ turn, action }) =>
+        turn.context
+            ? findStaleBalances(action, turn.context, current)
+            : [{ action_id: action.id, bucket_id: null, proposed_balance: null, current_balance: null }]
+    );
+    if (stale.length > 0) {
+        throw new AIApplyError('Balances changed since these actions were proposed; ask again', 409, { stale });
+    }
+
+    const { rejected } = validateProposedActions(selected.map(({ action }) => action), current);
+    if (rejected.length > 0) {
+        throw new AIApplyError('Some actions no longer fit the current budget; ask again', 409, {
+            invalid: rejected.map((rejection) => ({
+                action_id: selected[rejection.index].action.id,
+                errors: rejection.errors,
+            })),
+        });
+    }
+
+    const timestamp = new Date().toISOString();
+    const applications = selected.map(({ turn, action }) => ({
+        turn,
+        action,
+        application: actionToEvents(action, timestamp),
+    }));
+
+    type TurnUpdate = { id: string; outcomes: Record<string, string>; applied: Record<string, string[]> };
+    const turnUpdates = new Map<string, TurnUpdate>();
+    for (const { turn, action, application } of applications) {
+        const update = turnUpdates.get(turn.id) ?? { id: turn.id, outcomes: {}, applied: {} };
+        update.outcomes[action.id] = 'accepted';
+        update.applied[action.id] = application.events.map((event) => event.clientEventId);
+        turnUpdates.set(turn.id, update);
+    }
+
+    const { error } = await supabase.rpc('apply_ai_actions', {
+        p_user_id: userId,
+        p_events: applications.flatMap(({ application }) => application.events),
+        p_merchant_mappings: applications.flatMap(({ application }) => application.merchantMappings),
+        p_turns: [...turnUpdates.values()],
+        // Anything that moved money after this sequence makes the checked balances stale
+        p_balances_as_of: selected.some(({ action }) => BALANCE_ACTIONS.has(action.type)) ? last_sequence : null,
+    });
+    if (error) {
+        // A concurrent apply of the same actions got there first
+        if (error.code === '23505') {
+            throw new AIApplyError('Some actions were already applied', 409);
+        }
+        if (error.code === '40001') {
+            throw new AIApplyError('Balances changed since these actions were proposed; ask again', 409);
+        }
+        // The session was deleted meanwhile
+        if (error.code === 'P0002') {
+            throw new AIApplyError('Session not found', 404);
+        }
+        throw error;
+    }
+
+    return applications.map(({ turn, action, application }) => ({
+        action_id: action.id,
+        type: action.type,
+        turn_id: turn.id,
+        command: turn.command,
+        event_ids: application.events.map((event) => event.clientEventId),
+        created_id: application.createdId,
+    }));
+}
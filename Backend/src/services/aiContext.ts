@@ -0,0 +1,256 @@
+/**
+ * AI Copilot Context
+ * Builds the budget snapshot the copilot reasons about from the database, so
+ * answers reflect the real ledger rather than whatever a client had cached:
+ * balances, bucket targets and rollover modes, month-to-date spending per
+ * bucket, enabled funding rules, top merchants and recent transactions.
+ *
+ * Each list is ranked (most relevant first) and cut to fit a token budget;
+ * `omitted` tells the model how many items of each were left out.
+ */
+
+import { supabase, Tables } from '../db/supabase';
+import { formatDate, formatMonth, zonedDateParts } from '../utils/calendar';
+import { ActionValidationContext } from './aiActions';
+import { estimateTokens } from './aiSessions';
+import { BucketState, getBucketStates, getUnassignedBalance, roundMoney } from './ledger';
+import { getUserTimeZone } from './users';
+
+const MERCHANT_WINDOW_DAYS = 90;
+const MAX_MERCHANTS = 25;
+const MAX_RECENT_TRANSACTIONS = 30;
+
+export interface ContextBucket {
+    id: string;
+    name: string;
+    available: number;
+    spentThisMonth: number;
+    targetType: string | null;
+    targetAmount: number | null;
+    targetDate: string | null;
+    rolloverMode: string;
+    rolloverCap: number | null;
+    allowNegative: boolean;
+}
+
+export interface ContextRule {
+    id: string;
+    name: string;
+    priority: number;
+    triggerType: string;
+    conditions: unknown;
+    actions: unknown;
+}
+
+export interface ContextMerchant {
+    merchant: string;
+    spent: number; // over the last MERCHANT_WINDOW_DAYS
+    transactions: number;
+}
+
+export interface ContextTransaction {
+    id: string;
+    merchantName: string | null;
+    amount: number;
+    date: string;
+}
+
+export interface CopilotContext {
+    month: string; // YYYY-MM, in the user's time zone
+    unassignedBalance: number;
+    buckets: ContextBucket[];
+    rules: ContextRule[];
+    topMerchants: ContextMerchant[];
+    recentTransactions: ContextTransaction[];
+    // Items left out to fit the token budget, per list
+    omitted?: Partial<Record<ContextList, number>>;
+}
+
+type ContextList = 'buckets' | 'rules' | 'topMerchants' | 'recentTransactions';
+
+// Share of the budget each list may use, most important first; what a list
+// doesn't use is passed on to the next
+const LIST_SHARES: Array<[ContextList, number]> = [
+    ['buckets', 0.5],
+    ['rules', 0.2],
+    ['topMerchants', 0.15],
+    ['recentTransactions', 0.15],
+];
+
+/**
+ * Ranks buckets for the model: those with money or spending this month first,
+ * then by bucket priority and spending. Pure.
+ */
+export function rankBuckets(buckets: ContextBucket[], priorities: Map<string, number>): ContextBucket[] {
+    const isActive = (bucket: ContextBucket) => bucket.available !== 0 || bucket.spentThisMonth !== 0;
+    return [...buckets].sort(
+        (a, b) =>
+            Number(isActive(b)) - Number(isActive(a)) ||
+            (priorities.get(a.id) ?? 0) - (priorities.get(b.id) ?? 0) ||
+            b.spentThisMonth - a.spentThisMonth
+    );
+}
+
+/**
+ * Cuts each (ranked) list of the context so the whole fits in `budgetTokens`,
+ * keeping the top of every list. Pure.
+ */
+export function fitContextToBudget(context: CopilotContext, budgetTokens: number): CopilotContext {
+    const { month, unassignedBalance } = context;
+    const fitted: CopilotContext = { ...context };
+    const omitted: Partial<Record<ContextList, number>> = {};
+
+    const available = Math.max(0, budgetTokens - estimateTokens(JSON.stringify({ month, unassignedBalance })));
+    let carried = 0;
+    for (const [list, share] of LIST_SHARES) {
+        const allowance = available * share + carried;
+        const items: unknown[] = context[list];
+        let used = 0;
+        let kept = 0;
+        for (const item of items) {
+            const cost = estimateTokens(JSON.stringify(item));
+            if (used + cost > allowance) {
+                break;
+            }
+            used += cost;
+            kept++;
+        }
+        carried = allowance - used;
+
+        (fitted[list] as unknown[]) = items.slice(0, kept);
+        if (kept < items.length) {
+            omitted[list] = items.length - kept;
+        }
+    }
+
+    if (Object.keys(omitted).length > 0) {
+        fitted.omitted = omitted;
+    }
+    return fitted;
+}
+
+function toValidationContext(
+    buckets: BucketState[],
+    unassignedBalance: number,
+    rules: Array<{ id: string; name: string }>
+): ActionValidationContext {
+    return {
+        unassignedBalance,
+        buckets: buckets.map((bucket) => ({ id: bucket.id, name: bucket.name, available: bucket.available })),
+        rules: rules.map((rule) => ({ id: rule.id, name: rule.name })),
+    };
+}
+
+/**
+ * The user's current budget, as proposed actions are validated against it
+ */
+export async function getActionValidationContext(userId: string): Promise<ActionValidationContext> {
+    const [buckets, unassignedBalance, rulesResult] = await Promise.all([
+        getBucketStates(userId),
+        getUnassignedBalance(userId),
+        supabase.from(Tables.FUNDING_RULES).select('id, name').eq('user_id', userId),
+    ]);
+    if (rulesResult.error) {
+        throw rulesResult.error;
+    }
+
+    return toValidationContext(buckets, unassignedBalance, rulesResult.data ?? []);
+}
+
+/**
+ * Loads the copilot context for a user, fitted to `budgetTokens`, together with
+ * the full budget its proposals are validated against
+ */
+export async function loadCopilotContext(
+    userId: string,
+    budgetTokens: number,
+    now: Date = new Date()
+): Promise<{ context: CopilotContext; budget: ActionValidationContext }> {
+    const today = zonedDateParts(now, await getUserTimeZone(userId));
+    const monthStart = formatDate({ ...today, day: 1 });
+    const windowStart = new Date(Date.UTC(today.year, today.month - 1, today.day - MERCHANT_WINDOW_DAYS));
+    const merchantsSince = formatDate({
+        year: windowStart.getUTCFullYear(),
+        month: windowStart.getUTCMonth() + 1,
+        day: windowStart.getUTCDate(),
+    });
+
+    const [buckets, unassignedBalance, spendingResult, rulesResult, merchantsResult, transactionsResult] =
+        await Promise.all([
+            getBucketStates(userId),
+            getUnassignedBalance(userId),
+            supabase.rpc('bucket_spending_since', { p_user_id: userId, p_start_date: monthStart }),
+            supabase
+                .from(Tables.FUNDING_RULES)
+                .select('id, name, enabled, priority, trigger_type, conditions, actions')
+                .eq('user_id', userId)
+                .order('priority', { ascending: true }),
+            supabase.rpc('top_merchants_since', {
+                p_user_id: userId,
+                p_start_date: merchantsSince,
+                p_limit: MAX_MERCHANTS,
+            }),
+            supabase
+                .from(Tables.TRANSACTIONS)
+                .select('id, merchant_name, description, amount, date')
+                .eq('user_id', userId)
+                .order('date', { ascending: false })
+                .order('created_at', { ascending: false })
+                .limit(MAX_RECENT_TRANSACTIONS),
+        ]);
+
+    for (const result of [spendingResult, rulesResult, merchantsResult, transactionsResult]) {
+        if (result.error) {
+            throw result.error;
+        }
+    }
+
+    const spending = new Map<string, number>(
+        (spendingResult.data ?? []).map((row: any) => [row.bucket_id, roundMoney(Number(row.spent))])
+    );
+    const contextBuckets = buckets.map((bucket) => ({
+        id: bucket.id,
+        name: bucket.name,
+        available: bucket.available,
+        spentThisMonth: spending.get(bucket.id) ?? 0,
+        targetType: bucket.target_type,
+        targetAmount: bucket.target_amount,
+        targetDate: bucket.target_date,
+        rolloverMode: bucket.rollover_mode,
+        rolloverCap: bucket.rollover_cap,
+        allowNegative: bucket.allow_negative,
+    }));
+    const rules = rulesResult.data ?? [];
+
+    const context = fitContextToBudget(
+        {
+            month: formatMonth(today.year, today.month),
+            unassignedBalance,
+            buckets: rankBuckets(contextBuckets, new Map(buckets.map((bucket) => [bucket.id, bucket.priority]))),
+            rules: rules
+                .filter((rule) => rule.enabled)
+                .map((rule) => ({
+                    id: rule.id,
+                    name: rule.name,
+                    priority: rule.priority,
+                    triggerType: rule.trigger_type,
+                    conditions: rule.conditions,
+                    actions: rule.actions,
+                })),
+            topMerchants: (merchantsResult.data ?? []).map((row: any) => ({
+                merchant: row.merchant,
+                spent: roundMoney(Number(row.spent)),
+                transactions: Number(row.transaction_count),
+            })),
+            recentTransactions: (transactionsResult.data ?? []).map((transaction) => ({
+                id: transaction.id,
+                merchantName: transaction.merchant_name ?? transaction.description,
+                amount: Number(transaction.amount),
+                date: transaction.date,
+            })),
+        },
+        budgetTokens
+    );
+
+    return { context, budget: toValidationContext(buckets, unassignedBalance, rules) };
+}
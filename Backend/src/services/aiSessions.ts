@@ -0,0 +1,264 @@
+/**
+ * AI Copilot Sessions
+ * Stores copilot conversations server-side so a command can build on earlier
+ * turns ("now make that 20% instead"). Each turn keeps the command, the actions
+ * proposed for it and whether the user accepted or rejected each of them; that
+ * history is replayed to the model on the next turn, trimmed to a token budget.
+ */
+
+import { supabase, Tables } from '../db/supabase';
+import { ActionValidationContext } from './aiActions';
+
+const TITLE_MAX_LENGTH = 80;
+const MAX_TURNS_LOADED = 100;
+const TURN_COLUMNS = 'id, session_id, command, summary, actions, warnings, action_outcomes, context, applied_events, created_at';
+
+export const ACTION_OUTCOMES = ['accepted', 'rejected'] as const;
+export type ActionOutcome = (typeof ACTION_OUTCOMES)[number];
+
+export class AISessionError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = 'AISessionError';
+    }
+}
+
+export interface AISession {
+    id: string;
+    title: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface AISessionTurn {
+    id: string;
+    session_id: string;
+    command: string;
+    summary: string | null;
+    actions: Array<{ id: string; type: string; [key: string]: any }>;
+    warnings: string[];
+    action_outcomes: Record<string, ActionOutcome>;
+    context: ActionValidationContext | null;
+    applied_events: Record<string, string[]>;
+    created_at: string;
+}
+
+export interface HistoryMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface SessionHistory {
+    messages: HistoryMessage[];
+    // One line per turn too old to replay in full, or null if every turn fit
+    earlierSummary: string | null;
+}
+
+/**
+ * Rough token count for budgeting (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function describeTurn(turn: AISessionTurn): string {
+    const counts = { accepted: 0, rejected: 0, pending: 0 };
+    for (const action of turn.actions) {
+        counts[turn.action_outcomes[action.id] ?? 'pending']++;
+    }
+    const types = [...new Set(turn.actions.map((action) => action.type))].join(', ');
+    const proposed = turn.actions.length > 0
+        ? `proposed ${turn.actions.length} action(s) (${types}): ${counts.accepted} accepted, ${counts.rejected} rejected, ${counts.pending} undecided`
+        : 'proposed no actions';
+    return `- User: "${turn.command}" -> ${proposed}`;
+}
+
+function turnMessages(turn: AISessionTurn): HistoryMessage[] {
+    const reply = {
+        summary: turn.summary,
+        actions: turn.actions.map((action) => ({
+            ...action,
+            outcome: turn.action_outcomes[action.id] ?? 'undecided',
+        })),
+    };
+    return [
+        { role: 'user', content: turn.command },
+        { role: 'assistant', content: JSON.stringify(reply) },
+    ];
+}
+
+/**
+ * Builds the model history for a session's turns (oldest first). The newest
+ * turns are replayed in full while they fit in `budgetTokens`; older ones are
+ * condensed to one line each, newest kept, within a quarter of the budget. Pure.
+ */
+export function buildSessionHistory(turns: AISessionTurn[], budgetTokens: number): SessionHistory {
+    const messages: HistoryMessage[] = [];
+    let used = 0;
+    let index = turns.length - 1;
+
+    for (; index >= 0; index--) {
+        const pair = turnMessages(turns[index]);
+        const cost = pair.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+        if (used + cost > budgetTokens) {
+            break;
+        }
+        messages.unshift(...pair);
+        used += cost;
+    }
+
+    if (index < 0) {
+        return { messages, earlierSummary: null };
+    }
+
+    const lines: string[] = [];
+    let summaryTokens = 0;
+    for (; index >= 0; index--) {
+        const line = describeTurn(turns[index]);
+        if (summaryTokens + estimateTokens(line) > budgetTokens / 4) {
+            break;
+        }
+        lines.unshift(line);
+        summaryTokens += estimateTokens(line);
+    }
+    if (index >= 0) {
+        lines.unshift(`- (${index + 1} earlier turn(s) omitted)`);
+    }
+
+    return { messages, earlierSummary: lines.join('\n') };
+}
+
+/**
+ * Returns a session of the user, or throws a 404 AISessionError
+ */
+export async function getSession(userId: string, sessionId: string): Promise<AISession> {
+    const { data, error } = await supabase
+        .from(Tables.AI_SESSIONS)
+        .select('id, title, created_at, updated_at')
+        .eq('id', sessionId)
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    if (!data) {
+        throw new AISessionError('Session not found', 404);
+    }
+    return data;
+}
+
+/**
+ * Returns the latest turns of a session, oldest first
+ */
+export async function getSessionTurns(sessionId: string): Promise<AISessionTurn[]> {
+    const { data, error } = await supabase
+        .from(Tables.AI_SESSION_TURNS)
+        .select(TURN_COLUMNS)
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false })
+        .limit(MAX_TURNS_LOADED);
+
+    if (error) {
+        throw error;
+    }
+    return (data ?? []).reverse();
+}
+
+export async function createSession(userId: string, firstCommand: string): Promise<AISession> {
+    const title = firstCommand.length > TITLE_MAX_LENGTH
+        ? `${firstCommand.slice(0, TITLE_MAX_LENGTH - 1)}…`
+        : firstCommand;
+
+    const { data, error } = await supabase
+        .from(Tables.AI_SESSIONS)
+        .insert({ user_id: userId, title })
+        .select('id, title, created_at, updated_at')
+        .single();
+
+    if (error) {
+        throw error;
+    }
+    return data;
+}
+
+/**
+ * Stores a turn and marks the session as updated
+ */
+export async function appendSessionTurn(
+    userId: string,
+    sessionId: string,
+    turn: Pick<AISessionTurn, 'command' | 'summary' | 'actions' | 'warnings' | 'context'>
+): Promise<AISessionTurn> {
+    const { data, error } = await supabase
+        .from(Tables.AI_SESSION_TURNS)
+        .insert({ session_id: sessionId, user_id: userId, ...turn })
+        .select(TURN_COLUMNS)
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    const { error: touchError } = await supabase
+        .from(Tables.AI_SESSIONS)
+        .update({ updated_at: new Date().toISOString() })
+        .eq('id', sessionId);
+    if (touchError) {
+        throw touchError;
+    }
+
+    return data;
+}
+
+/**
+ * Records whether the user accepted or rejected actions proposed in a session.
+ * Unknown action ids are rejected as a whole so a typo doesn't half-apply, and
+ * an action that was already applied can't be marked rejected.
+ */
+export async function recordActionOutcomes(
+    userId: string,
+    sessionId: string,
+    outcomes: Record<string, unknown>
+): Promise<void> {
+    const entries = Object.entries(outcomes);
+    for (const [actionId, outcome] of entries) {
+        if (!ACTION_OUTCOMES.includes(outcome as ActionOutcome)) {
+            throw new AISessionError(`Outcome of action ${actionId} must be accepted or rejected`);
+        }
+    }
+    if (entries.length === 0) {
+        return;
+    }
+
+    await getSession(userId, sessionId);
+    const turns = await getSessionTurns(sessionId);
+
+    const patches = new Map<string, Record<string, ActionOutcome>>();
+    for (const [actionId, outcome] of entries) {
+        const turn = turns.find((candidate) => candidate.actions.some((action) => action.id === actionId));
+        if (!turn) {
+            throw new AISessionError(`Action ${actionId} was not proposed in this session`);
+        }
+        const patch = patches.get(turn.id) ?? {};
+        patch[actionId] = outcome as ActionOutcome;
+        patches.set(turn.id, patch);
+    }
+
+    // Merged in the database, so outcomes recorded meanwhile (e.g. by an apply) are kept
+    const { error } = await supabase.rpc('record_ai_action_outcomes', {
+        p_user_id: userId,
+        p_turns: [...patches].map(([id, patch]) => ({ id, outcomes: patch })),
+    });
+    if (error) {
+        if (error.code === '23505') {
+            throw new AISessionError('Applied actions cannot be rejected', 409);
+        }
+        // The session was deleted meanwhile
+        if (error.code === 'P0002') {
+            throw new AISessionError('Session not found', 404);
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,382 @@
+/**
+ * Account Archive
+ * Exports a user's data as a versioned, portable JSON archive and restores one
+ * into an empty account.
+ *
+ * The events log is the source of truth: restoring inserts the stored
+ * transactions and the events (in one database transaction, restore_archive),
+ * then rebuilds the projection from sequence zero.
+ * The balances recorded at export time are compared with the rebuilt ones, so a
+ * restore that doesn't replay to the same state is reported rather than trusted.
+ * Plaid items (and their access tokens) are never exported; banks have to be
+ * linked again after a restore.
+ */
+
+import { supabase, Tables } from '../db/supabase';
+import { BucketState, getBucketStates, getUnassignedBalance } from './ledger';
+import { ProjectionResult, projectUserEventsNow, rebuildUserProjection } from './projector';
+import { getUserTimeZone } from './users';
+
+export const ARCHIVE_FORMAT = 'bucketpilot-archive';
+export const ARCHIVE_VERSION = 1;
+
+const PAGE_SIZE = 1000; // Supabase returns at most max_rows (1000) rows per request
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// SQLSTATEs restore_archive raises for an account that isn't empty and for ids already taken
+const RESTORE_CONFLICT_CODES = ['55000', '23505'];
+
+const TRANSACTION_COLUMNS =
+    'id, plaid_transaction_id, plaid_item_id, account_id, merchant_name, amount, date, category, description, is_pending, source, import_hash, created_at';
+
+export class ArchiveError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = 'ArchiveError';
+    }
+}
+
+export interface ArchiveBalances {
+    unassigned_balance: number;
+    buckets: Array<{ bucket_id: string; name: string; assigned: number; activity: number; available: number }>;
+}
+
+export interface AccountArchive {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exported_at: string;
+    user: { timezone: string };
+    buckets: Record<string, any>[];
+    funding_rules: Record<string, any>[];
+    merchant_mapping_rules: Record<string, any>[];
+    month_closes: Record<string, any>[];
+    transactions: Record<string, any>[];
+    transaction_splits: Record<string, any>[];
+    allocation_events: Record<string, any>[];
+    events: Record<string, any>[];
+    balances: ArchiveBalances;
+}
+
+export interface BalanceMismatch {
+    bucket_id: string | null; // null = unassigned pool
+    expected: number | null; // null = bucket missing from the archive
+    actual: number | null; // null = bucket missing after the restore
+}
+
+// Ids the restored rows and events create, per table
+export type ArchiveIds = Record<
+    'transactions' | 'buckets' | 'funding_rules' | 'allocation_events' | 'transaction_splits',
+    string[]
+>;
+
+export interface RestoreResult {
+    verified: boolean;
+    mismatches: BalanceMismatch[];
+    restored: { transactions: number; events: number; merchant_mapping_rules: number; month_closes: number };
+    projection: ProjectionResult;
+}
+
+/**
+ * Reads every row of a query page by page. `page` must apply a stable order.
+ */
+async function fetchAll<T>(
+    page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await page(from, from + PAGE_SIZE - 1);
+        if (error) {
+            throw error;
+        }
+        rows.push(...(data ?? []));
+        if ((data ?? []).length < PAGE_SIZE) {
+            return rows;
+        }
+    }
+}
+
+function toBalances(buckets: BucketState[], unassignedBalance: number): ArchiveBalances {
+    return {
+        unassigned_balance: unassignedBalance,
+        buckets: buckets.map((bucket) => ({
+            bucket_id: bucket.id,
+            name: bucket.name,
+            assigned: bucket.assigned,
+            activity: bucket.activity,
+            available: bucket.available,
+        })),
+    };
+}
+
+/**
+ * Builds the full archive of a user's data. The events are cut off at the
+ * sequence the balances were projected to, so both describe the same point in
+ * time and a fresh export restores verified.
+ */
+export async function buildArchive(userId: string): Promise<AccountArchive> {
+    const { last_sequence } = await projectUserEventsNow(userId);
+    const [timezone, bucketStates, unassignedBalance] = await Promise.all([
+        getUserTimeZone(userId),
+        getBucketStates(userId),
+        getUnassignedBalance(userId),
+    ]);
+
+    const buckets = await fetchAll((from, to) =>
+        supabase.from(Tables.BUCKETS).select('*').eq('user_id', userId).order('id').range(from, to)
+    );
+    const fundingRules = await fetchAll((from, to) =>
+        supabase.from(Tables.FUNDING_RULES).select('*').eq('user_id', userId).order('id').range(from, to)
+    );
+    const merchantMappingRules = await fetchAll((from, to) =>
+        supabase.from(Tables.MERCHANT_MAPPING_RULES).select('*').eq('user_id', userId).order('id').range(from, to)
+    );
+    const monthCloses = await fetchAll((from, to) =>
+        supabase.from(Tables.MONTH_CLOSES).select('*').eq('user_id', userId).order('month').range(from, to)
+    );
+    const transactions = await fetchAll((from, to) =>
+        supabase
+            .from(Tables.TRANSACTIONS)
+            .select(TRANSACTION_COLUMNS)
+            .eq('user_id', userId)
+            .order('date')
+            .order('id')
+            .range(from, to)
+    );
+    const splits = await fetchAll((from, to) =>
+        supabase
+            .from(Tables.TRANSACTION_SPLITS)
+            .select('id, transaction_id, bucket_id, amount, created_at, transactions!inner(user_id)')
+            .eq('transactions.user_id', userId)
+            .order('id')
+            .range(from, to)
+    );
+    const allocationEvents = await fetchAll((from, to) =>
+        supabase
+            .from(Tables.ALLOCATION_EVENTS)
+            .select('*')
+            .eq('user_id', userId)
+            .order('sequence')
+            .range(from, to)
+    );
+    const events = await fetchAll((from, to) =>
+        supabase
+            .from(Tables.EVENTS)
+            .select('id, client_event_id, event_type, schema_version, timestamp, sequence, payload, device_id, created_at')
+            .eq('user_id', userId)
+            .lte('sequence', last_sequence)
+            .order('sequence')
+            .range(from, to)
+    );
+
+    return {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exported_at: new Date().toISOString(),
+        user: { timezone },
+        buckets,
+        funding_rules: fundingRules,
+        merchant_mapping_rules: merchantMappingRules,
+        month_closes: monthCloses,
+        transactions,
+        transaction_splits: splits.map(({ transactions: _owner, ...split }) => split),
+        allocation_events: allocationEvents,
+        events,
+        balances: toBalances(bucketStates, unassignedBalance),
+    };
+}
+
+/**
+ * Returns the differences between the balances recorded in an archive and the
+ * current ones, compared in whole cents. Pure.
+ */
+export function compareBalances(expected: ArchiveBalances, actual: ArchiveBalances): BalanceMismatch[] {
+    const toCents = (value: number) => Math.round(value * 100);
+    const mismatches: BalanceMismatch[] = [];
+
+    if (toCents(expected.unassigned_balance) !== toCents(actual.unassigned_balance)) {
+        mismatches.push({
+            bucket_id: null,
+            expected: expected.unassigned_balance,
+            actual: actual.unassigned_balance,
+        });
+    }
+
+    const actualById = new Map(actual.buckets.map((bucket) => [bucket.bucket_id, bucket]));
+    for (const bucket of expected.buckets) {
+        const restored = actualById.get(bucket.bucket_id);
+        if (!restored || toCents(restored.available) !== toCents(bucket.available)) {
+            mismatches.push({
+                bucket_id: bucket.bucket_id,
+                expected: bucket.available,
+                actual: restored ? restored.available : null,
+            });
+        }
+        actualById.delete(bucket.bucket_id);
+    }
+    for (const bucket of actualById.values()) {
+        mismatches.push({ bucket_id: bucket.bucket_id, expected: null, actual: bucket.available });
+    }
+
+    return mismatches;
+}
+
+function validateArchive(archive: any): asserts archive is AccountArchive {
+    if (typeof archive !== 'object' || archive === null || archive.format !== ARCHIVE_FORMAT) {
+        throw new ArchiveError(`Not a ${ARCHIVE_FORMAT} file`);
+    }
+    if (archive.version !== ARCHIVE_VERSION) {
+        throw new ArchiveError(`Unsupported archive version ${archive.version} (expected ${ARCHIVE_VERSION})`);
+    }
+    for (const key of ['transactions', 'events', 'merchant_mapping_rules', 'month_closes'] as const) {
+        if (!Array.isArray(archive[key])) {
+            throw new ArchiveError(`${key} must be an array`);
+        }
+    }
+    if (
+        typeof archive.balances !== 'object' ||
+        archive.balances === null ||
+        typeof archive.balances.unassigned_balance !== 'number' ||
+        !Array.isArray(archive.balances.buckets)
+    ) {
+        throw new ArchiveError('balances are missing');
+    }
+    archive.events.forEach((event: any, index: number) => {
+        if (
+            typeof event?.event_type !== 'string' ||
+            typeof event.timestamp !== 'string' ||
+            typeof event.payload !== 'object' ||
+            event.payload === null
+        ) {
+            throw new ArchiveError(`events[${index}] needs event_type, timestamp and payload`);
+        }
+    });
+}
+
+/**
+ * Collects every id the archive's rows and events create. They are kept as
+ * they are, because event payloads refer to one another by id, so none of
+ * them may exist yet in any account. Pure.
+ */
+export function collectArchiveIds(archive: AccountArchive): ArchiveIds {
+    const ids: Record<keyof ArchiveIds, Set<string>> = {
+        transactions: new Set(archive.transactions.map((transaction) => transaction.id)),
+        buckets: new Set((archive.buckets ?? []).map((bucket) => bucket.id)),
+        funding_rules: new Set((archive.funding_rules ?? []).map((rule) => rule.id)),
+        allocation_events: new Set((archive.allocation_events ?? []).map((allocation) => allocation.id)),
+        transaction_splits: new Set((archive.transaction_splits ?? []).map((split) => split.id)),
+    };
+
+    for (const { event_type: eventType, payload } of archive.events) {
+        if (eventType === 'bucket_created') {
+            ids.buckets.add(payload.id);
+        } else if (eventType === 'rule_created') {
+            ids.funding_rules.add(payload.id);
+        } else if (eventType === 'allocation_made' || eventType === 'allocation') {
+            ids.allocation_events.add(payload.id);
+        } else if (eventType === 'transaction_split_set' && Array.isArray(payload.splits)) {
+            for (const split of payload.splits) {
+                if (split?.id !== undefined) {
+                    ids.transaction_splits.add(split.id);
+                }
+            }
+        }
+    }
+
+    const result = {} as ArchiveIds;
+    for (const [table, tableIds] of Object.entries(ids) as Array<[keyof ArchiveIds, Set<string>]>) {
+        for (const id of tableIds) {
+            if (typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+                throw new ArchiveError(`Archive has an invalid ${table} id: ${JSON.stringify(id)}`);
+            }
+        }
+        result[table] = [...tableIds];
+    }
+    return result;
+}
+
+/**
+ * Restores an archive into an account that has no events, transactions or
+ * buckets yet, then replays the events and verifies the resulting balances.
+ * Restored data is kept even when verification fails, so it can be inspected.
+ */
+export async function restoreArchive(userId: string, archive: unknown): Promise<RestoreResult> {
+    validateArchive(archive);
+
+    const reservedIds = collectArchiveIds(archive);
+
+    // Rows are inserted in array order, so the log keeps its sequence order
+    const events = [...archive.events].sort((a, b) => Number(a.sequence ?? 0) - Number(b.sequence ?? 0));
+    // Only finished closes; their `applied` amounts keep re-runs from double counting
+    const monthCloses = archive.month_closes.filter((close) => close.status === 'completed');
+
+    // One call, so a failed restore leaves the account empty
+    const { error } = await supabase.rpc('restore_archive', {
+        p_user_id: userId,
+        p_timezone: typeof archive.user?.timezone === 'string' ? archive.user.timezone : null,
+        p_reserved_ids: reservedIds,
+        p_transactions: archive.transactions.map((transaction) => ({
+            id: transaction.id,
+            plaid_transaction_id: transaction.plaid_transaction_id ?? null,
+            plaid_item_id: transaction.plaid_item_id ?? null,
+            account_id: transaction.account_id,
+            merchant_name: transaction.merchant_name ?? null,
+            amount: transaction.amount,
+            date: transaction.date,
+            category: transaction.category ?? null,
+            description: transaction.description ?? null,
+            is_pending: transaction.is_pending ?? false,
+            source: transaction.source ?? 'plaid',
+            import_hash: transaction.import_hash ?? null,
+            created_at: transaction.created_at ?? null,
+        })),
+        p_events: events.map((event) => ({
+            client_event_id: event.client_event_id ?? null,
+            event_type: event.event_type,
+            schema_version: event.schema_version ?? 1,
+            timestamp: event.timestamp,
+            payload: event.payload,
+            device_id: event.device_id ?? null,
+        })),
+        p_merchant_mapping_rules: archive.merchant_mapping_rules.map((rule) => ({
+            merchant_contains: rule.merchant_contains,
+            bucket_id: rule.bucket_id,
+            priority: rule.priority ?? 5,
+        })),
+        p_month_closes: monthCloses.map((close) => ({
+            month: close.month,
+            time_zone: close.time_zone,
+            status: close.status,
+            run_number: close.run_number ?? 1,
+            adjustments: close.adjustments ?? null,
+            applied: close.applied ?? {},
+            started_at: close.started_at ?? null,
+            completed_at: close.completed_at ?? null,
+        })),
+    });
+
+    if (error) {
+        if (RESTORE_CONFLICT_CODES.includes(error.code)) {
+            throw new ArchiveError(error.message, 409);
+        }
+        throw error;
+    }
+
+    const projection = await rebuildUserProjection(userId);
+
+    const [bucketStates, unassignedBalance] = await Promise.all([
+        getBucketStates(userId),
+        getUnassignedBalance(userId),
+    ]);
+    const mismatches = compareBalances(archive.balances, toBalances(bucketStates, unassignedBalance));
+
+    return {
+        verified: mismatches.length === 0,
+        mismatches,
+        restored: {
+            transactions: archive.transactions.length,
+            events: events.length,
+            merchant_mapping_rules: archive.merchant_mapping_rules.length,
+            month_closes: monthCloses.length,
+        },
+        projection,
+    };
+}
@@ -0,0 +1,39 @@
+/**
+ * Server-side Event Log Writer
+ * Appends events generated by the backend (imports, jobs) to the sync log
+ * so devices receive them through /sync/pullEvents
+ */
+
+import { supabase, Tables } from '../db/supabase';
+
+export const SERVER_DEVICE_ID = 'server';
+
+export interface ServerEvent {
+    // Optional idempotency key; an event whose id was already logged is skipped
+    eventId?: string;
+    eventType: string;
+    payload: Record<string, any>;
+}
+
+export async function appendServerEvents(userId: string, events: ServerEvent[]): Promise<void> {
+    if (events.length === 0) {
+        return;
+    }
+
+    const timestamp = new Date().toISOString();
+    const { error } = await supabase.from(Tables.EVENTS).upsert(
+        events.map((event) => ({
+            user_id: userId,
+            client_event_id: event.eventId ?? null,
+            event_type: event.eventType,
+            timestamp,
+            payload: event.payload,
+            device_id: SERVER_DEVICE_ID,
+        })),
+        { onConflict: 'user_id,client_event_id', ignoreDuplicates: true }
+    );
+
+    if (error) {
+        throw error;
+    }
+}
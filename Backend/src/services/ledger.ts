@@ -0,0 +1,128 @@
+/**
+ * Bucket Ledger Calculations
+ * Server-side equivalent of the iOS BucketLedgerService:
+ *   assigned  = sum of allocation events to the bucket
+ *   activity  = sum of transaction splits to the bucket
+ *   available = assigned + activity
+ */
+
+import { supabase, Tables, Views } from '../db/supabase';
+
+export interface BucketState {
+    id: string;
+    name: string;
+    icon: string | null;
+    color: string | null;
+    target_type: string | null;
+    target_amount: number | null;
+    target_date: string | null;
+    priority: number;
+    rollover_mode: string;
+    rollover_cap: number | null;
+    allow_negative: boolean;
+    assigned: number;
+    activity: number;
+    available: number;
+    is_overspent: boolean;
+    progress_to_target: number | null;
+}
+
+/**
+ * Rounds to whole cents to keep float sums from drifting
+ */
+export function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function toBucketState(bucket: Record<string, any>, balance?: Record<string, any>): BucketState {
+    const assigned = roundMoney(Number(balance?.assigned ?? 0));
+    const activity = roundMoney(Number(balance?.activity ?? 0));
+    const available = roundMoney(assigned + activity);
+    const targetAmount = bucket.target_amount === null ? null : Number(bucket.target_amount);
+
+    return {
+        id: bucket.id,
+        name: bucket.name,
+        icon: bucket.icon,
+        color: bucket.color,
+        target_type: bucket.target_type,
+        target_amount: targetAmount,
+        target_date: bucket.target_date,
+        priority: bucket.priority,
+        rollover_mode: bucket.rollover_mode,
+        rollover_cap: bucket.rollover_cap === null ? null : Number(bucket.rollover_cap),
+        allow_negative: bucket.allow_negative,
+        assigned,
+        activity,
+        available,
+        is_overspent: available < 0 && !bucket.allow_negative,
+        progress_to_target: targetAmount && targetAmount > 0 ? available / targetAmount : null,
+    };
+}
+
+/**
+ * Returns every bucket of a user with its current balances, by priority
+ */
+export async function getBucketStates(userId: string): Promise<BucketState[]> {
+    const [bucketsResult, balancesResult] = await Promise.all([
+        supabase
+            .from(Tables.BUCKETS)
+            .select('*')
+            .eq('user_id', userId)
+            .order('priority', { ascending: true })
+            .order('name', { ascending: true }),
+        supabase.from(Views.BUCKET_BALANCES).select('bucket_id, assigned, activity').eq('user_id', userId),
+    ]);
+
+    if (bucketsResult.error) {
+        throw bucketsResult.error;
+    }
+    if (balancesResult.error) {
+        throw balancesResult.error;
+    }
+
+    const balances = new Map((balancesResult.data ?? []).map((row) => [row.bucket_id, row]));
+    return (bucketsResult.data ?? []).map((bucket) => toBucketState(bucket, balances.get(bucket.id)));
+}
+
+/**
+ * Returns a single bucket with its balances, or null if the user has no such bucket
+ */
+export async function getBucketState(userId: string, bucketId: string): Promise<BucketState | null> {
+    const { data: bucket, error } = await supabase
+        .from(Tables.BUCKETS)
+        .select('*')
+        .eq('id', bucketId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    if (!bucket) {
+        return null;
+    }
+
+    const { data: balance, error: balanceError } = await supabase
+        .from(Views.BUCKET_BALANCES)
+        .select('assigned, activity')
+        .eq('bucket_id', bucketId)
+        .maybeSingle();
+
+    if (balanceError) {
+        throw balanceError;
+    }
+
+    return toBucketState(bucket, balance ?? undefined);
+}
+
+/**
+ * Unassigned pool: income (excluding transfers/payments) minus net allocations to buckets
+ */
+export async function getUnassignedBalance(userId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('unassigned_balance', { p_user_id: userId });
+    if (error) {
+        throw error;
+    }
+    return roundMoney(Number(data ?? 0));
+}
@@ -0,0 +1,174 @@
+/**
+ * Merchant Mapping
+ * Auto-categorizes imported transactions: a spending transaction whose
+ * merchant name contains a rule's `merchant_contains` (case-insensitive) is
+ * split entirely into that rule's bucket. The lowest priority number wins;
+ * ties go to the oldest rule. Unmatched transactions stay unassigned for review.
+ *
+ * Splits are written as transaction_split_set events, so devices receive them
+ * and a projection rebuild reproduces them.
+ */
+
+import crypto from 'crypto';
+import { supabase, Tables } from '../db/supabase';
+import { appendServerEvents } from './eventLog';
+
+const ID_CHUNK_SIZE = 100;
+
+export interface MerchantMappingRule {
+    id: string;
+    merchant_contains: string;
+    bucket_id: string;
+    priority: number;
+    created_at: string;
+}
+
+export interface MappableTransaction {
+    id: string;
+    merchant_name: string | null;
+    description: string | null;
+    amount: number;
+}
+
+export interface MerchantMatch {
+    transaction_id: string;
+    rule_id: string;
+    bucket_id: string;
+    amount: number;
+}
+
+/**
+ * Returns the best rule for a transaction, or null. Pure.
+ */
+export function matchMerchantRule(
+    transaction: MappableTransaction,
+    rules: MerchantMappingRule[]
+): MerchantMappingRule | null {
+    const merchant = (transaction.merchant_name ?? transaction.description ?? '').toLowerCase();
+    if (!merchant) {
+        return null;
+    }
+
+    let best: MerchantMappingRule | null = null;
+    for (const rule of rules) {
+        const needle = rule.merchant_contains.trim().toLowerCase();
+        if (!needle || !merchant.includes(needle)) {
+            continue;
+        }
+        if (
+            !best ||
+            rule.priority < best.priority ||
+            (rule.priority === best.priority && rule.created_at < best.created_at)
+        ) {
+            best = rule;
+        }
+    }
+    return best;
+}
+
+/**
+ * Matches a batch of transactions. Only spending (negative amounts) is mapped;
+ * income goes to the unassigned pool. Pure.
+ */
+export function matchTransactions(
+    transactions: MappableTransaction[],
+    rules: MerchantMappingRule[]
+): MerchantMatch[] {
+    const matches: MerchantMatch[] = [];
+    for (const transaction of transactions) {
+        if (Number(transaction.amount) >= 0) {
+            continue;
+        }
+        const rule = matchMerchantRule(transaction, rules);
+        if (rule) {
+            matches.push({
+                transaction_id: transaction.id,
+                rule_id: rule.id,
+                bucket_id: rule.bucket_id,
+                amount: Number(transaction.amount),
+            });
+        }
+    }
+    return matches;
+}
+
+/**
+ * Loads a user's merchant mapping rules whose bucket still exists
+ */
+export async function getMerchantMappingRules(userId: string): Promise<MerchantMappingRule[]> {
+    const [rulesResult, bucketsResult] = await Promise.all([
+        supabase
+            .from(Tables.MERCHANT_MAPPING_RULES)
+            .select('id, merchant_contains, bucket_id, priority, created_at')
+            .eq('user_id', userId)
+            .order('priority', { ascending: true })
+            .order('created_at', { ascending: true }),
+        supabase.from(Tables.BUCKETS).select('id').eq('user_id', userId),
+    ]);
+
+    if (rulesResult.error) {
+        throw rulesResult.error;
+    }
+    if (bucketsResult.error) {
+        throw bucketsResult.error;
+    }
+
+    const bucketIds = new Set((bucketsResult.data ?? []).map((bucket) => bucket.id));
+    return ((rulesResult.data ?? []) as MerchantMappingRule[]).filter((rule) => bucketIds.has(rule.bucket_id));
+}
+
+/**
+ * Splits newly imported transactions by the user's mapping rules. Transactions
+ * that already have splits are left alone, and each transaction is mapped at
+ * most once (the event id is keyed by it), so a later manual split is never
+ * overwritten by a re-import.
+ */
+export async function applyMerchantMappings(
+    userId: string,
+    transactions: MappableTransaction[]
+): Promise<MerchantMatch[]> {
+    if (transactions.length === 0) {
+        return [];
+    }
+
+    const rules = await getMerchantMappingRules(userId);
+    if (rules.length === 0) {
+        return [];
+    }
+
+    // Chunked to keep the id list within PostgREST's URL limits
+    const alreadySplit = new Set<string>();
+    for (let start = 0; start < transactions.length; start += ID_CHUNK_SIZE) {
+        const ids = transactions.slice(start, start + ID_CHUNK_SIZE).map((transaction) => transaction.id);
+        const { data: splits, error } = await supabase
+            .from(Tables.TRANSACTION_SPLITS)
+            .select('transaction_id')
+            .in('transaction_id', ids);
+
+        if (error) {
+            throw error;
+        }
+        for (const split of splits ?? []) {
+            alreadySplit.add(split.transaction_id);
+        }
+    }
+
+    const matches = matchTransactions(
+        transactions.filter((transaction) => !alreadySplit.has(transaction.id)),
+        rules
+    );
+
+    await appendServerEvents(
+        userId,
+        matches.map((match) => ({
+            eventId: `merchant-mapping:${match.transaction_id}`,
+            eventType: 'transaction_split_set',
+            payload: {
+                transactionId: match.transaction_id,
+                splits: [{ id: crypto.randomUUID(), bucketId: match.bucket_id, amount: match.amount }],
+            },
+        }))
+    );
+
+    return matches;
+}
@@ -0,0 +1,409 @@
+/**
+ * Month Close
+ * Applies each bucket's rollover mode to its balance at the end of a month,
+ * as allocation events dated at the month boundary:
+ *   rollover        keeps the balance
+ *   cappedRollover  sweeps anything above rollover_cap back to unassigned
+ *   resetMonthly    sweeps the balance back to unassigned (or covers it if negative)
+ * A negative balance carries into the next month only if the bucket has
+ * allow_negative; otherwise it is covered from unassigned.
+ *
+ * A month is closed once per user (month_closes). Re-running a closed month
+ * recomputes the adjustments and appends only the difference from what
+ * earlier runs already applied. Balances are read after the user's events
+ * are projected, so each later month of a re-run sees the adjustments just
+ * appended for the months before it.
+ */
+
+import crypto from 'crypto';
+import { supabase, Tables } from '../db/supabase';
+import { appendServerEvents } from './eventLog';
+import { BucketState, getBucketStates, roundMoney } from './ledger';
+import { projectUserEventsNow } from './projector';
+import { getUserTimeZone } from './users';
+import {
+    formatDate,
+    formatMonth,
+    isValidTimeZone,
+    nextMonth,
+    previousMonth,
+    zonedDateParts,
+    zonedStartOfDay,
+} from '../utils/calendar';
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+// A close left 'running' this long is assumed to have died with its process
+const STALE_CLOSE_MS = 10 * 60 * 1000;
+
+export class MonthCloseError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = 'MonthCloseError';
+    }
+}
+
+export interface MonthCloseAdjustment {
+    bucket_id: string;
+    bucket_name: string;
+    rollover_mode: string;
+    balance: number; // balance at the month boundary, before the close
+    amount: number; // allocation appended by this run
+    source_type: 'rollover' | 'reset';
+}
+
+export interface MonthClose {
+    id: string;
+    user_id: string;
+    month: string;
+    time_zone: string;
+    status: 'running' | 'completed' | 'failed';
+    run_number: number;
+    adjustments: MonthCloseAdjustment[] | null;
+    applied: Record<string, number>;
+    error: string | null;
+    started_at: string;
+    completed_at: string | null;
+}
+
+type BucketAtBoundary = Pick<BucketState, 'id' | 'name' | 'rollover_mode' | 'rollover_cap' | 'allow_negative'> & {
+    balance: number;
+};
+
+/**
+ * Target net close allocation for one bucket (0 = leave it alone)
+ */
+export function closeAmountFor(bucket: BucketAtBoundary): number {
+    const { balance } = bucket;
+
+    if (bucket.rollover_mode === 'resetMonthly') {
+        return roundMoney(-balance);
+    }
+    if (balance < 0) {
+        return bucket.allow_negative ? 0 : roundMoney(-balance);
+    }
+    if (bucket.rollover_mode === 'cappedRollover' && bucket.rollover_cap !== null && balance > bucket.rollover_cap) {
+        return roundMoney(bucket.rollover_cap - balance);
+    }
+    return 0;
+}
+
+/**
+ * Adjustments needed to bring each bucket's close allocations to its target,
+ * given what earlier runs of the same month already applied. Pure.
+ */
+export function computeCloseAdjustments(
+    buckets: BucketAtBoundary[],
+    applied: Record<string, number>
+): MonthCloseAdjustment[] {
+    const adjustments: MonthCloseAdjustment[] = [];
+
+    for (const bucket of buckets) {
+        const alreadyApplied = applied[bucket.id] ?? 0;
+        // The boundary balance excludes this month's close events, so the target is absolute
+        const amount = roundMoney(closeAmountFor(bucket) - alreadyApplied);
+        if (amount === 0) {
+            continue;
+        }
+
+        adjustments.push({
+            bucket_id: bucket.id,
+            bucket_name: bucket.name,
+            rollover_mode: bucket.rollover_mode,
+            balance: bucket.balance,
+            amount,
+            source_type: bucket.rollover_mode === 'resetMonthly' ? 'reset' : 'rollover',
+        });
+    }
+
+    return adjustments;
+}
+
+/**
+ * First instant of the month after `month` in the time zone, and its local date
+ */
+export function monthBoundary(month: string, timeZone: string): { cutoff: Date; cutoffDate: string } {
+    const match = MONTH_PATTERN.exec(month);
+    if (!match) {
+        throw new MonthCloseError('month must be YYYY-MM');
+    }
+    const next = nextMonth(Number(match[1]), Number(match[2]));
+    return {
+        cutoff: zonedStartOfDay(next.year, next.month, 1, timeZone),
+        cutoffDate: formatDate({ ...next, day: 1 }),
+    };
+}
+
+async function getBucketsAtBoundary(userId: string, cutoff: Date, cutoffDate: string): Promise<BucketAtBoundary[]> {
+    const [buckets, balancesResult] = await Promise.all([
+        getBucketStates(userId),
+        supabase.rpc('bucket_balances_as_of', {
+            p_user_id: userId,
+            p_cutoff: cutoff.toISOString(),
+            p_cutoff_date: cutoffDate,
+        }),
+    ]);
+
+    if (balancesResult.error) {
+        throw balancesResult.error;
+    }
+
+    const balances = new Map<string, { assigned: number; activity: number }>(
+        (balancesResult.data ?? []).map((row: any) => [row.bucket_id, row])
+    );
+
+    return buckets.map((bucket) => {
+        const balance = balances.get(bucket.id);
+        return {
+            id: bucket.id,
+            name: bucket.name,
+            rollover_mode: bucket.rollover_mode,
+            rollover_cap: bucket.rollover_cap,
+            allow_negative: bucket.allow_negative,
+            balance: roundMoney(Number(balance?.assigned ?? 0) + Number(balance?.activity ?? 0)),
+        };
+    });
+}
+
+async function getMonthClose(userId: string, month: string): Promise<MonthClose | null> {
+    const { data, error } = await supabase
+        .from(Tables.MONTH_CLOSES)
+        .select('*')
+        .eq('user_id', userId)
+        .eq('month', month)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    return data as MonthClose | null;
+}
+
+/**
+ * Claims the close row for (user, month), creating it or taking over a failed,
+ * abandoned or (when re-running) completed one
+ */
+async function claimMonthClose(
+    userId: string,
+    month: string,
+    timeZone: string,
+    rerun: boolean
+): Promise<MonthClose> {
+    const existing = await getMonthClose(userId, month);
+
+    if (!existing) {
+        const { data, error } = await supabase
+            .from(Tables.MONTH_CLOSES)
+            .insert({ user_id: userId, month, time_zone: timeZone })
+            .select('*')
+            .single();
+
+        if (error) {
+            // Unique violation: another process claimed it first
+            if (error.code === '23505') {
+                throw new MonthCloseError(`Close of ${month} is already in progress`, 409);
+            }
+            throw error;
+        }
+        return data as MonthClose;
+    }
+
+    if (existing.status === 'completed' && !rerun) {
+        throw new MonthCloseError(`${month} is already closed; pass rerun to close it again`, 409);
+    }
+    if (existing.status === 'running' && Date.now() - Date.parse(existing.started_at) < STALE_CLOSE_MS) {
+        throw new MonthCloseError(`Close of ${month} is already in progress`, 409);
+    }
+
+    // A re-run starts a new run; a failed or abandoned run is retried as-is so its
+    // stored adjustments (and event ids) are reused
+    const update =
+        existing.status === 'completed'
+            ? { run_number: existing.run_number + 1, adjustments: null }
+            : {};
+
+    // Matching on started_at keeps two processes from both taking it
+    const { data, error } = await supabase
+        .from(Tables.MONTH_CLOSES)
+        .update({ ...update, status: 'running', started_at: new Date().toISOString(), error: null })
+        .eq('id', existing.id)
+        .eq('started_at', existing.started_at)
+        .select('*');
+
+    if (error) {
+        throw error;
+    }
+    if (!data?.[0]) {
+        throw new MonthCloseError(`Close of ${month} is already in progress`, 409);
+    }
+    return data[0] as MonthClose;
+}
+
+async function executeMonthClose(close: MonthClose): Promise<MonthClose> {
+    const { cutoff, cutoffDate } = monthBoundary(close.month, close.time_zone);
+    let adjustments = close.adjustments;
+
+    if (adjustments === null) {
+        // Balances must include every earlier adjustment, so don't join a projection already running
+        await projectUserEventsNow(close.user_id);
+
+        const buckets = await getBucketsAtBoundary(close.user_id, cutoff, cutoffDate);
+        adjustments = computeCloseAdjustments(buckets, close.applied ?? {});
+
+        const { error } = await supabase.from(Tables.MONTH_CLOSES).update({ adjustments }).eq('id', close.id);
+        if (error) {
+            throw error;
+        }
+    }
+
+    // Dated at the boundary so they count toward the next month, not the one being closed
+    await appendServerEvents(
+        close.user_id,
+        adjustments.map((adjustment) => ({
+            eventId: `month-close:${close.id}:${close.run_number}:${adjustment.bucket_id}`,
+            eventType: 'allocation_made',
+            payload: {
+                id: crypto.randomUUID(),
+                bucketId: adjustment.bucket_id,
+                amount: adjustment.amount,
+                sourceType: adjustment.source_type,
+                sourceId: close.month,
+                timestamp: cutoff.toISOString(),
+            },
+        }))
+    );
+
+    const applied = { ...(close.applied ?? {}) };
+    for (const adjustment of adjustments) {
+        applied[adjustment.bucket_id] = roundMoney((applied[adjustment.bucket_id] ?? 0) + adjustment.amount);
+    }
+
+    const { data, error } = await supabase
+        .from(Tables.MONTH_CLOSES)
+        .update({ status: 'completed', applied, completed_at: new Date().toISOString() })
+        .eq('id', close.id)
+        .select('*')
+        .single();
+
+    if (error) {
+        throw error;
+    }
+    return data as MonthClose;
+}
+
+/**
+ * Closes a finished month for a user. With `rerun`, closes an already closed
+ * month again (e.g. after late transactions) along with every later closed
+ * month, since their boundary balances depend on it.
+ */
+export async function closeMonth(
+    userId: string,
+    month: string,
+    options: { rerun?: boolean; now?: Date } = {}
+): Promise<MonthClose[]> {
+    if (!MONTH_PATTERN.test(month)) {
+        throw new MonthCloseError('month must be YYYY-MM');
+    }
+
+    const existing = await getMonthClose(userId, month);
+    const timeZone = existing?.time_zone ?? (await getUserTimeZone(userId));
+    const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+
+    const today = zonedDateParts(options.now ?? new Date(), zone);
+    if (month >= formatMonth(today.year, today.month)) {
+        throw new MonthCloseError(`${month} has not ended yet`);
+    }
+
+    const months = [month];
+    if (options.rerun) {
+        const { data, error } = await supabase
+            .from(Tables.MONTH_CLOSES)
+            .select('month')
+            .eq('user_id', userId)
+            .gt('month', month)
+            .order('month', { ascending: true });
+
+        if (error) {
+            throw error;
+        }
+        months.push(...(data ?? []).map((row) => row.month));
+    }
+
+    const closes: MonthClose[] = [];
+    for (const target of months) {
+        const close = await claimMonthClose(userId, target, zone, options.rerun ?? false);
+        try {
+            closes.push(await executeMonthClose(close));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            await supabase.from(Tables.MONTH_CLOSES).update({ status: 'failed', error: message }).eq('id', close.id);
+            throw error;
+        }
+    }
+    return closes;
+}
+
+/**
+ * Closes the previous month (in each user's time zone) for every user that
+ * hasn't closed it yet
+ */
+export async function closePreviousMonthForAllUsers(now: Date = new Date()): Promise<MonthClose[]> {
+    const { data: users, error } = await supabase.from(Tables.USERS).select('id, timezone');
+    if (error) {
+        throw error;
+    }
+
+    const closes: MonthClose[] = [];
+    for (const user of users ?? []) {
+        const zone = isValidTimeZone(user.timezone) ? user.timezone : 'UTC';
+        const today = zonedDateParts(now, zone);
+        const last = previousMonth(today.year, today.month);
+        const month = formatMonth(last.year, last.month);
+
+        try {
+            const existing = await getMonthClose(user.id, month);
+            if (existing?.status === 'completed') {
+                continue;
+            }
+            closes.push(...(await closeMonth(user.id, month, { now })));
+        } catch (closeError) {
+            if (closeError instanceof MonthCloseError && closeError.status === 409) {
+                continue;
+            }
+            console.error(`Error closing ${month} for user ${user.id}:`, closeError);
+        }
+    }
+    return closes;
+}
+
+/**
+ * Starts the month close job (every MONTH_CLOSE_INTERVAL_MINUTES)
+ */
+export function startMonthCloseJob(): void {
+    const minutes = Number(process.env.MONTH_CLOSE_INTERVAL_MINUTES ?? 60);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+        console.log('⏸️  Month close disabled');
+        return;
+    }
+
+    let running = false;
+    const run = async () => {
+        if (running) {
+            return;
+        }
+        running = true;
+        try {
+            const closes = await closePreviousMonthForAllUsers();
+            if (closes.length > 0) {
+                console.log(`✅ Closed ${closes.length} month(s)`);
+            }
+        } catch (error) {
+            console.error('Month close failed:', error);
+        } finally {
+            running = false;
+        }
+    };
+
+    setInterval(run, minutes * 60 * 1000);
+    void run();
+}
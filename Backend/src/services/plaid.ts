@@ -0,0 +1,246 @@
+/**
+ * Plaid Client and Stored Item Access
+ * Shared by the Plaid routes and background jobs
+ */
+
+import { Configuration, PlaidApi, PlaidEnvironments } from 'plaid';
+import { supabase, Tables } from '../db/supabase';
+import { decryptSecret, isEncrypted } from '../utils/encryption';
+
+// Initialize Plaid client
+const configuration = new Configuration({
+    basePath: PlaidEnvironments[process.env.PLAID_ENVIRONMENT || 'sandbox'],
+    baseOptions: {
+        headers: {
+            'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID!,
+            'PLAID-SECRET': process.env.PLAID_SECRET!,
+        },
+    },
+});
+
+export const plaidClient = new PlaidApi(configuration);
+
+export type StoredPlaidItem = {
+    user_id: string;
+    item_id: string;
+    access_token: string;
+    institution_id: string | null;
+    institution_name: string | null;
+    transactions_cursor: string | null;
+    status: ItemStatus;
+    error_code: string | null;
+};
+
+const ITEM_COLUMNS =
+    'user_id, item_id, access_token_encrypted, institution_id, institution_name, transactions_cursor, status, error_code';
+
+let warnedPlaintextToken = false;
+
+/**
+ * Decrypts a stored access token. Rows written before encryption was
+ * introduced still hold plaintext until `npm run reencrypt-tokens` runs.
+ */
+function readAccessToken(stored: string): string {
+    if (isEncrypted(stored)) {
+        return decryptSecret(stored);
+    }
+    if (!warnedPlaintextToken) {
+        console.warn('Found plaintext Plaid access token; run `npm run reencrypt-tokens` to encrypt it');
+        warnedPlaintextToken = true;
+    }
+    return stored;
+}
+
+function toStoredItem({ access_token_encrypted, ...item }: any): StoredPlaidItem {
+    return {
+        ...item,
+        access_token: readAccessToken(access_token_encrypted),
+    };
+}
+
+/**
+ * An item whose access token can't be decrypted (e.g. its key was removed from
+ * ENCRYPTION_PREVIOUS_KEYS). It can't be used until the key is restored or the
+ * bank is re-linked.
+ */
+export interface UnreadablePlaidItem {
+    item_id: string;
+    institution_id: string | null;
+    institution_name: string | null;
+    error: string;
+}
+
+export const UNREADABLE_TOKEN_ERROR = 'ACCESS_TOKEN_UNREADABLE';
+
+/**
+ * Decrypts each row on its own, so one unreadable token doesn't take the
+ * user's other items down with it
+ */
+function toStoredItems(rows: any[]): { items: StoredPlaidItem[]; unreadable: UnreadablePlaidItem[] } {
+    const items: StoredPlaidItem[] = [];
+    const unreadable: UnreadablePlaidItem[] = [];
+    for (const row of rows) {
+        try {
+            items.push(toStoredItem(row));
+        } catch (error) {
+            console.error(`Error decrypting access token of item ${row.item_id}:`, error);
+            unreadable.push({
+                item_id: row.item_id,
+                institution_id: row.institution_id,
+                institution_name: row.institution_name,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+    return { items, unreadable };
+}
+
+/**
+ * Returns a user's linked items, plus those whose token can't be decrypted
+ */
+export async function getStoredItems(
+    userId: string
+): Promise<{ items: StoredPlaidItem[]; unreadable: UnreadablePlaidItem[] }> {
+    const { data, error } = await supabase
+        .from(Tables.PLAID_ITEMS)
+        .select(ITEM_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching Plaid items:', error.message);
+        return { items: [], unreadable: [] };
+    }
+
+    return toStoredItems(data ?? []);
+}
+
+/**
+ * Fetches every linked item across all users (for background jobs). Items
+ * whose token can't be decrypted are logged and left out.
+ */
+export async function getAllStoredItems(): Promise<StoredPlaidItem[]> {
+    const { data, error } = await supabase
+        .from(Tables.PLAID_ITEMS)
+        .select(ITEM_COLUMNS)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return toStoredItems(data ?? []).items;
+}
+
+export async function getStoredItem(itemId: string): Promise<StoredPlaidItem | null> {
+    const { data, error } = await supabase
+        .from(Tables.PLAID_ITEMS)
+        .select(ITEM_COLUMNS)
+        .eq('item_id', itemId)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    return data ? toStoredItem(data) : null;
+}
+
+/**
+ * Extracts Plaid's error_code from a failed API call, if present
+ */
+export function getPlaidErrorCode(error: unknown): string | null {
+    const code = (error as any)?.response?.data?.error_code;
+    return typeof code === 'string' ? code : null;
+}
+
+// `removed` marks an item being unlinked; nothing may sync it or change its status after that
+export type ItemStatus = 'healthy' | 'login_required' | 'revoked' | 'error' | 'removed';
+
+const LOGIN_REQUIRED_ERRORS = new Set(['ITEM_LOGIN_REQUIRED', 'PENDING_EXPIRATION', 'PENDING_DISCONNECT']);
+const REVOKED_ERRORS = new Set(['USER_PERMISSION_REVOKED', 'ACCESS_NOT_GRANTED', 'ITEM_NOT_FOUND']);
+
+/**
+ * Maps a Plaid error code to the item status it implies
+ */
+export function statusForPlaidError(errorCode: string | null): ItemStatus {
+    if (errorCode && LOGIN_REQUIRED_ERRORS.has(errorCode)) {
+        return 'login_required';
+    }
+    if (errorCode && REVOKED_ERRORS.has(errorCode)) {
+        return 'revoked';
+    }
+    return 'error';
+}
+
+/**
+ * Records an item's connection health (and the Plaid error behind it, if any).
+ * A removed item keeps its status.
+ */
+export async function setItemStatus(
+    itemId: string,
+    status: ItemStatus,
+    errorCode: string | null = null
+): Promise<void> {
+    const { error } = await supabase
+        .from(Tables.PLAID_ITEMS)
+        .update({
+            status,
+            error_code: errorCode,
+            status_updated_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('item_id', itemId)
+        .neq('status', 'removed');
+
+    if (error) {
+        throw error;
+    }
+}
+
+/**
+ * Whether an item is still linked: it exists and isn't being removed
+ */
+export async function isItemLinked(itemId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from(Tables.PLAID_ITEMS)
+        .select('status')
+        .eq('item_id', itemId)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    return data !== null && data.status !== 'removed';
+}
+
+/**
+ * Records a failed Plaid call against the item and returns the resulting status.
+ * Status write failures are logged rather than masking the original error.
+ */
+export async function recordItemError(itemId: string, plaidError: unknown): Promise<ItemStatus> {
+    const errorCode = getPlaidErrorCode(plaidError);
+    const status = statusForPlaidError(errorCode);
+    try {
+        await setItemStatus(itemId, status, errorCode);
+    } catch (error) {
+        console.error(`Error recording status for item ${itemId}:`, error);
+    }
+    return status;
+}
+
+/**
+ * Marks an item healthy after a successful Plaid call, if it wasn't already
+ */
+export async function recordItemSuccess(item: StoredPlaidItem): Promise<void> {
+    if (item.status === 'healthy') {
+        return;
+    }
+    try {
+        await setItemStatus(item.item_id, 'healthy');
+        item.status = 'healthy';
+        item.error_code = null;
+    } catch (error) {
+        console.error(`Error recording status for item ${item.item_id}:`, error);
+    }
+}
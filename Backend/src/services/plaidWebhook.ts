@@ -0,0 +1,207 @@
+/**
+ * Plaid Webhook Verification and Handling
+ * Verifies the Plaid-Verification JWT (ES256) against Plaid's published keys
+ * and dispatches item / transaction webhooks
+ */
+
+import crypto from 'crypto';
+import { JWKPublicKey } from 'plaid';
+import { supabase, Tables } from '../db/supabase';
+import { getStoredItem, plaidClient, setItemStatus, statusForPlaidError } from './plaid';
+import { syncItemTransactions } from './transactionIngestion';
+
+const MAX_WEBHOOK_AGE_SECONDS = 5 * 60;
+// Tolerated difference between Plaid's clock and ours
+const MAX_CLOCK_SKEW_SECONDS = 60;
+// How long a key id Plaid couldn't return is refused without asking again
+const KEY_MISS_TTL_MS = 60_000;
+const MAX_KEY_MISSES = 1000;
+
+export class WebhookVerificationError extends Error {}
+
+export type VerificationKeyFetcher = (keyId: string) => Promise<JWKPublicKey>;
+
+export interface PlaidWebhookBody {
+    webhook_type: string;
+    webhook_code: string;
+    item_id?: string;
+    error?: { error_code?: string } | null;
+    consent_expiration_time?: string;
+    [key: string]: any;
+}
+
+const keyCache = new Map<string, JWKPublicKey>();
+// Key id -> when the failed lookup may be retried
+const keyMisses = new Map<string, number>();
+
+/**
+ * Fetches (and caches) a webhook verification key from Plaid.
+ * Cached keys are re-fetched once Plaid marks them expired. A key id Plaid
+ * can't return (unknown or forged) is a WebhookVerificationError, and is
+ * refused for KEY_MISS_TTL_MS without calling Plaid again, so unsigned
+ * requests can't make us call Plaid on every request.
+ */
+export async function fetchVerificationKey(keyId: string, now: number = Date.now()): Promise<JWKPublicKey> {
+    const cached = keyCache.get(keyId);
+    if (cached && cached.expired_at === null) {
+        return cached;
+    }
+    if ((keyMisses.get(keyId) ?? 0) > now) {
+        throw new WebhookVerificationError(`Unknown verification key ${keyId}`);
+    }
+
+    try {
+        const response = await plaidClient.webhookVerificationKeyGet({ key_id: keyId });
+        keyCache.set(keyId, response.data.key);
+        keyMisses.delete(keyId);
+        return response.data.key;
+    } catch (error) {
+        console.warn(`Error fetching Plaid verification key ${keyId}:`, error instanceof Error ? error.message : error);
+        // Bounded, so a flood of made-up key ids can't grow it without limit
+        if (keyMisses.size >= MAX_KEY_MISSES) {
+            keyMisses.clear();
+        }
+        keyMisses.set(keyId, now + KEY_MISS_TTL_MS);
+        throw new WebhookVerificationError(`Unknown verification key ${keyId}`);
+    }
+}
+
+function decodeSegment(segment: string): Record<string, any> {
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+        throw new WebhookVerificationError('Malformed verification token');
+    }
+}
+
+/**
+ * Verifies a webhook request. Throws WebhookVerificationError if the token is
+ * missing, badly signed, stale, or doesn't match the request body.
+ */
+export async function verifyPlaidWebhook(
+    rawBody: Buffer | string,
+    token: string | undefined,
+    getKey: VerificationKeyFetcher = fetchVerificationKey,
+    now: Date = new Date()
+): Promise<void> {
+    if (!token) {
+        throw new WebhookVerificationError('Missing Plaid-Verification header');
+    }
+
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+        throw new WebhookVerificationError('Malformed verification token');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+    const header = decodeSegment(encodedHeader);
+    if (header.alg !== 'ES256' || typeof header.kid !== 'string') {
+        throw new WebhookVerificationError('Unsupported verification token');
+    }
+
+    const jwk = await getKey(header.kid);
+    if (jwk.expired_at !== null) {
+        throw new WebhookVerificationError('Verification key has expired');
+    }
+
+    const publicKey = crypto.createPublicKey({
+        key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y },
+        format: 'jwk',
+    });
+    const signatureValid = crypto.verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        { key: publicKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!signatureValid) {
+        throw new WebhookVerificationError('Invalid webhook signature');
+    }
+
+    const payload = decodeSegment(encodedPayload);
+    const ageSeconds = now.getTime() / 1000 - Number(payload.iat);
+    if (!Number.isFinite(ageSeconds) || ageSeconds > MAX_WEBHOOK_AGE_SECONDS) {
+        throw new WebhookVerificationError('Webhook is too old');
+    }
+    if (ageSeconds < -MAX_CLOCK_SKEW_SECONDS) {
+        throw new WebhookVerificationError('Webhook was issued in the future');
+    }
+
+    const bodyHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+    const claimedHash = String(payload.request_body_sha256 ?? '');
+    if (
+        claimedHash.length !== bodyHash.length ||
+        !crypto.timingSafeEqual(Buffer.from(claimedHash), Buffer.from(bodyHash))
+    ) {
+        throw new WebhookVerificationError('Webhook body does not match signature');
+    }
+}
+
+/**
+ * Applies a verified webhook. Transaction syncs run in the background so the
+ * webhook can be acknowledged within Plaid's timeout.
+ * Returns a short description of what was done.
+ */
+export async function handlePlaidWebhook(body: PlaidWebhookBody): Promise<string> {
+    const { webhook_type, webhook_code, item_id } = body;
+    if (!item_id) {
+        return 'ignored';
+    }
+
+    const item = await getStoredItem(item_id);
+    if (!item) {
+        console.warn(`Received ${webhook_type}.${webhook_code} webhook for unknown item ${item_id}`);
+        return 'ignored';
+    }
+    if (item.status === 'removed') {
+        return 'ignored';
+    }
+
+    switch (`${webhook_type}.${webhook_code}`) {
+        case 'TRANSACTIONS.SYNC_UPDATES_AVAILABLE':
+            syncItemTransactions(item).catch((error) => {
+                console.error(`Error syncing transactions for item ${item_id}:`, error);
+            });
+            return 'sync_started';
+
+        case 'ITEM.ERROR': {
+            const errorCode = body.error?.error_code ?? null;
+            await setItemStatus(item_id, statusForPlaidError(errorCode), errorCode);
+            return 'status_updated';
+        }
+
+        case 'ITEM.ITEM_LOGIN_REQUIRED':
+            await setItemStatus(item_id, 'login_required', 'ITEM_LOGIN_REQUIRED');
+            return 'status_updated';
+
+        case 'ITEM.LOGIN_REPAIRED':
+            await setItemStatus(item_id, 'healthy');
+            return 'status_updated';
+
+        case 'ITEM.PENDING_EXPIRATION': {
+            const { error } = await supabase
+                .from(Tables.PLAID_ITEMS)
+                .update({
+                    status: statusForPlaidError('PENDING_EXPIRATION'),
+                    error_code: 'PENDING_EXPIRATION',
+                    consent_expires_at: body.consent_expiration_time ?? null,
+                    status_updated_at: new Date().toISOString(),
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('item_id', item_id)
+                .neq('status', 'removed');
+
+            if (error) {
+                throw error;
+            }
+            return 'status_updated';
+        }
+
+        case 'ITEM.USER_PERMISSION_REVOKED':
+            await setItemStatus(item_id, 'revoked', body.error?.error_code ?? 'USER_PERMISSION_REVOKED');
+            return 'status_updated';
+
+        default:
+            return 'ignored';
+    }
+}
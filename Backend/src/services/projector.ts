@@ -0,0 +1,477 @@
+/**
+ * Event Projector
+ * Applies the events log, in sequence order, to the relational tables
+ * (buckets, allocation_events, transaction_splits, funding_rules).
+ * Progress is checkpointed per user so runs resume where they left off;
+ * every handler is idempotent, so re-applying an event is harmless.
+ *
+ * An event that can never apply (it names a row another user owns, or breaks
+ * a constraint) is recorded in projection_failures before the checkpoint
+ * moves past it. Any other failure stops the run at that event, so it is
+ * retried rather than skipped; the periodic job backs off between attempts.
+ */
+
+import { supabase, Tables } from '../db/supabase';
+
+const PAGE_SIZE = 500;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60_000;
+
+interface StoredEvent {
+    id: string;
+    event_type: string;
+    timestamp: string;
+    sequence: number;
+    payload: Record<string, any>;
+    device_id: string | null;
+}
+
+export interface ProjectionFailure {
+    event_id: string;
+    sequence: number;
+    event_type: string;
+    error: string;
+}
+
+export interface ProjectionResult {
+    user_id: string;
+    applied: number;
+    failed: number;
+    // Events rejected during this run, as recorded in projection_failures
+    rejected: ProjectionFailure[];
+    last_sequence: number;
+}
+
+/**
+ * An event the projector can never apply; it is recorded and passed over
+ */
+export class ProjectionRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectionRejectedError';
+    }
+}
+
+type EventHandler = (userId: string, event: StoredEvent) => Promise<void>;
+
+const inFlightProjections = new Map<string, Promise<ProjectionResult>>();
+const retryBackoff = new Map<string, { attempts: number; retryAt: number }>();
+
+function check(result: { error: any }) {
+    if (result.error) {
+        throw result.error;
+    }
+}
+
+/**
+ * Copies the camelCase payload keys that are present onto snake_case columns
+ */
+function pickColumns(payload: Record<string, any>, columns: Record<string, string>) {
+    const row: Record<string, any> = {};
+    for (const [key, column] of Object.entries(columns)) {
+        if (payload[key] !== undefined) {
+            row[column] = payload[key];
+        }
+    }
+    return row;
+}
+
+/**
+ * Inserts a row keyed by a client-chosen id. A row that already exists is left
+ * alone when it is the user's (the event was applied before) and rejects the
+ * event when another user owns it.
+ */
+async function insertOwnedRow(table: string, userId: string, row: Record<string, any>) {
+    const { data, error } = await supabase
+        .from(table)
+        .upsert({ ...row, user_id: userId }, { onConflict: 'id', ignoreDuplicates: true })
+        .select('id');
+    if (error) {
+        throw error;
+    }
+    if ((data ?? []).length > 0) {
+        return;
+    }
+
+    const { data: existing, error: existingError } = await supabase
+        .from(table)
+        .select('user_id')
+        .eq('id', row.id)
+        .maybeSingle();
+    if (existingError) {
+        throw existingError;
+    }
+    if (existing && existing.user_id !== userId) {
+        throw new ProjectionRejectedError(`${table} row ${row.id} belongs to another user`);
+    }
+}
+
+/**
+ * Ids of the buckets an event moves money into or out of
+ */
+export function referencedBucketIds(eventType: string, payload: Record<string, any>): string[] {
+    switch (eventType) {
+        case 'allocation_made':
+        case 'allocation':
+            return typeof payload.bucketId === 'string' ? [payload.bucketId] : [];
+        case 'transaction_split_set':
+            return (Array.isArray(payload.splits) ? payload.splits : [])
+                .map((split: Record<string, any>) => split?.bucketId)
+                .filter((bucketId: unknown): bucketId is string => typeof bucketId === 'string');
+        default:
+            return [];
+    }
+}
+
+/**
+ * Returns the ids among `bucketIds` that belong to another user. Buckets that
+ * don't exist (yet) are not reported; the database refuses rows naming them.
+ */
+export async function findForeignBucketIds(userId: string, bucketIds: string[]): Promise<string[]> {
+    const unique = [...new Set(bucketIds)];
+    if (unique.length === 0) {
+        return [];
+    }
+
+    const { data, error } = await supabase.from(Tables.BUCKETS).select('id, user_id').in('id', unique);
+    if (error) {
+        throw error;
+    }
+    return (data ?? []).filter((bucket) => bucket.user_id !== userId).map((bucket) => bucket.id);
+}
+
+/**
+ * Rejects an event that moves money in another user's bucket: bucket_balances
+ * sums by bucket id alone, so it would change that user's balance
+ */
+async function assertOwnBuckets(userId: string, event: StoredEvent) {
+    const foreign = await findForeignBucketIds(userId, referencedBucketIds(event.event_type, event.payload));
+    if (foreign.length > 0) {
+        throw new ProjectionRejectedError(`${Tables.BUCKETS} row ${foreign[0]} belongs to another user`);
+    }
+}
+
+const BUCKET_COLUMNS = {
+    name: 'name',
+    icon: 'icon',
+    color: 'color',
+    targetType: 'target_type',
+    targetAmount: 'target_amount',
+    targetDate: 'target_date',
+    priority: 'priority',
+    rolloverMode: 'rollover_mode',
+    rolloverCap: 'rollover_cap',
+    allowNegative: 'allow_negative',
+};
+
+const RULE_COLUMNS = {
+    name: 'name',
+    enabled: 'enabled',
+    priority: 'priority',
+    triggerType: 'trigger_type',
+    conditions: 'conditions',
+    actions: 'actions',
+};
+
+async function applyAllocation(userId: string, event: StoredEvent) {
+    const { payload } = event;
+    await assertOwnBuckets(userId, event);
+    await insertOwnedRow(Tables.ALLOCATION_EVENTS, userId, {
+        id: payload.id,
+        bucket_id: payload.bucketId ?? null,
+        amount: payload.amount,
+        source_type: payload.sourceType === 'import_' ? 'import' : payload.sourceType,
+        source_id: payload.sourceId ?? null,
+        timestamp: payload.timestamp ?? event.timestamp,
+        device_id: event.device_id,
+    });
+}
+
+async function applySplitSet(userId: string, event: StoredEvent) {
+    const { transactionId, splits } = event.payload;
+
+    const { data: transaction, error } = await supabase
+        .from(Tables.TRANSACTIONS)
+        .select('id')
+        .eq('id', transactionId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    if (!transaction) {
+        throw new ProjectionRejectedError(`Transaction ${transactionId} not found`);
+    }
+    await assertOwnBuckets(userId, event);
+
+    check(
+        await supabase.rpc('replace_transaction_splits', {
+            p_transaction_id: transactionId,
+            p_splits: splits,
+        })
+    );
+}
+
+const handlers: Record<string, EventHandler> = {
+    bucket_created: async (userId, { payload }) => {
+        await insertOwnedRow(Tables.BUCKETS, userId, { id: payload.id, ...pickColumns(payload, BUCKET_COLUMNS) });
+    },
+    bucket_updated: async (userId, { payload }) => {
+        check(
+            await supabase
+                .from(Tables.BUCKETS)
+                .update({ ...pickColumns(payload, BUCKET_COLUMNS), updated_at: new Date().toISOString() })
+                .eq('id', payload.id)
+                .eq('user_id', userId)
+        );
+    },
+    bucket_deleted: async (userId, { payload }) => {
+        check(await supabase.from(Tables.BUCKETS).delete().eq('id', payload.id).eq('user_id', userId));
+        check(
+            await supabase
+                .from(Tables.MERCHANT_MAPPING_RULES)
+                .delete()
+                .eq('bucket_id', payload.id)
+                .eq('user_id', userId)
+        );
+    },
+    allocation_made: applyAllocation,
+    allocation: applyAllocation,
+    transaction_split_set: applySplitSet,
+    rule_created: async (userId, { payload }) => {
+        await insertOwnedRow(Tables.FUNDING_RULES, userId, { id: payload.id, ...pickColumns(payload, RULE_COLUMNS) });
+    },
+    rule_updated: async (userId, { payload }) => {
+        check(
+            await supabase
+                .from(Tables.FUNDING_RULES)
+                .update({ ...pickColumns(payload, RULE_COLUMNS), updated_at: new Date().toISOString() })
+                .eq('id', payload.id)
+                .eq('user_id', userId)
+        );
+    },
+    rule_deleted: async (userId, { payload }) => {
+        check(await supabase.from(Tables.FUNDING_RULES).delete().eq('id', payload.id).eq('user_id', userId));
+    },
+};
+
+async function loadCheckpoint(userId: string): Promise<number> {
+    const { data, error } = await supabase
+        .from(Tables.PROJECTION_CHECKPOINTS)
+        .select('last_sequence')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    return data ? Number(data.last_sequence) : 0;
+}
+
+async function saveCheckpoint(userId: string, lastSequence: number): Promise<void> {
+    check(
+        await supabase.from(Tables.PROJECTION_CHECKPOINTS).upsert({
+            user_id: userId,
+            last_sequence: lastSequence,
+            updated_at: new Date().toISOString(),
+        })
+    );
+}
+
+/**
+ * Whether retrying can't help: the event was rejected, or the database refused
+ * its data (integrity constraint or invalid value)
+ */
+function isPermanentFailure(error: unknown): boolean {
+    if (error instanceof ProjectionRejectedError) {
+        return true;
+    }
+    const code = (error as { code?: unknown } | null)?.code;
+    return typeof code === 'string' && (code.startsWith('23') || code.startsWith('22'));
+}
+
+async function recordFailure(userId: string, event: StoredEvent, error: unknown): Promise<ProjectionFailure> {
+    const failure: ProjectionFailure = {
+        event_id: event.id,
+        sequence: Number(event.sequence),
+        event_type: event.event_type,
+        error: error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error),
+    };
+    check(
+        await supabase
+            .from(Tables.PROJECTION_FAILURES)
+            .upsert({ ...failure, user_id: userId }, { onConflict: 'event_id' })
+    );
+    return failure;
+}
+
+async function runProjection(userId: string): Promise<ProjectionResult> {
+    let lastSequence = await loadCheckpoint(userId);
+    let applied = 0;
+    const rejected: ProjectionFailure[] = [];
+
+    while (true) {
+        const { data, error } = await supabase
+            .from(Tables.EVENTS)
+            .select('id, event_type, timestamp, sequence, payload, device_id')
+            .eq('user_id', userId)
+            .gt('sequence', lastSequence)
+            .order('sequence', { ascending: true })
+            .limit(PAGE_SIZE);
+
+        if (error) {
+            throw error;
+        }
+
+        const events = (data ?? []) as StoredEvent[];
+        const pageStart = lastSequence;
+        for (const event of events) {
+            const handler = handlers[event.event_type];
+            if (handler) {
+                try {
+                    await handler(userId, event);
+                    applied += 1;
+                } catch (handlerError) {
+                    if (!isPermanentFailure(handlerError)) {
+                        // Keep what was applied and stop here, so this event is retried
+                        if (lastSequence > pageStart) {
+                            await saveCheckpoint(userId, lastSequence);
+                        }
+                        throw handlerError;
+                    }
+                    const failure = await recordFailure(userId, event, handlerError);
+                    rejected.push(failure);
+                    console.error(
+                        `Projector rejected ${event.event_type} event ${event.id} (sequence ${event.sequence}):`,
+                        failure.error
+                    );
+                }
+            }
+            lastSequence = Number(event.sequence);
+        }
+
+        if (events.length > 0) {
+            await saveCheckpoint(userId, lastSequence);
+        }
+        if (events.length < PAGE_SIZE) {
+            break;
+        }
+    }
+
+    return { user_id: userId, applied, failed: rejected.length, rejected, last_sequence: lastSequence };
+}
+
+/**
+ * Projects a user's events since their checkpoint. Concurrent calls for the
+ * same user share a single run.
+ */
+export function projectUserEvents(userId: string): Promise<ProjectionResult> {
+    const existing = inFlightProjections.get(userId);
+    if (existing) {
+        return existing;
+    }
+
+    const run = runProjection(userId).finally(() => {
+        inFlightProjections.delete(userId);
+    });
+    inFlightProjections.set(userId, run);
+    return run;
+}
+
+/**
+ * Projects every event of the user appended before the call. A run already in
+ * flight may have read the log before them, so instead of joining it this
+ * waits for it to finish and then projects again.
+ */
+export async function projectUserEventsNow(userId: string): Promise<ProjectionResult> {
+    await inFlightProjections.get(userId)?.catch(() => undefined);
+    return projectUserEvents(userId);
+}
+
+/**
+ * Clears a user's projected rows and checkpoint, then replays from sequence zero
+ */
+export async function rebuildUserProjection(userId: string): Promise<ProjectionResult> {
+    await inFlightProjections.get(userId)?.catch(() => undefined);
+    check(await supabase.rpc('reset_projection', { p_user_id: userId }));
+    return projectUserEvents(userId);
+}
+
+/**
+ * Events of a user the projector rejected, oldest first
+ */
+export async function getProjectionFailures(userId: string): Promise<ProjectionFailure[]> {
+    const { data, error } = await supabase
+        .from(Tables.PROJECTION_FAILURES)
+        .select('event_id, sequence, event_type, error')
+        .eq('user_id', userId)
+        .order('sequence', { ascending: true })
+        .limit(1000);
+
+    if (error) {
+        throw error;
+    }
+    return (data ?? []).map((row) => ({ ...row, sequence: Number(row.sequence) }));
+}
+
+/**
+ * Projects new events for every user. A user whose projection stopped on a
+ * failing event is retried with exponential backoff.
+ */
+export async function projectAllUsers(): Promise<ProjectionResult[]> {
+    const { data, error } = await supabase.from(Tables.USERS).select('id');
+    if (error) {
+        throw error;
+    }
+
+    const results: ProjectionResult[] = [];
+    for (const user of data ?? []) {
+        const backoff = retryBackoff.get(user.id);
+        if (backoff && backoff.retryAt > Date.now()) {
+            continue;
+        }
+        try {
+            results.push(await projectUserEvents(user.id));
+            retryBackoff.delete(user.id);
+        } catch (projectionError) {
+            const attempts = (backoff?.attempts ?? 0) + 1;
+            const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+            retryBackoff.set(user.id, { attempts, retryAt: Date.now() + delay });
+            console.error(
+                `Error projecting events for user ${user.id} (attempt ${attempts}, retrying in ${delay / 1000}s):`,
+                projectionError
+            );
+        }
+    }
+    return results;
+}
+
+/**
+ * Starts the periodic projector (PROJECTOR_INTERVAL_SECONDS, default 15; 0 disables)
+ */
+export function startProjectorJob(): void {
+    const seconds = Number(process.env.PROJECTOR_INTERVAL_SECONDS ?? 15);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+        console.log('⏸️  Event projector disabled');
+        return;
+    }
+
+    let running = false;
+    const run = async () => {
+        if (running) {
+            return;
+        }
+        running = true;
+        try {
+            await projectAllUsers();
+        } catch (error) {
+            console.error('Event projector failed:', error);
+        } finally {
+            running = false;
+        }
+    };
+
+    setInterval(run, seconds * 1000);
+    void run();
+}
@@ -0,0 +1,378 @@
+/**
+ * Scheduled Rule Runner
+ * Fires scheduledDaily / scheduledWeekly / scheduledMonthly funding rules on
+ * the user's local calendar:
+ *   daily   every day
+ *   weekly  on the rule's `weekday` condition (default Sunday)
+ *   monthly on the rule's `dayOfMonth` condition (default the 1st, clamped to
+ *           the last day of shorter months)
+ *
+ * Each (user, trigger, period) gets one rule_runs row, where the period is the
+ * local day, week (starting Sunday) or month, and every rule runs at most once
+ * per period. A rule due later in a period that already ran (another weekday
+ * or day of month) re-runs the row for just that rule. The row is claimed
+ * before anything is computed and the proposals are stored on it before their
+ * events are appended (keyed by the run id and number), so a restart at any
+ * point neither skips nor re-funds a run.
+ *
+ * A new period only starts once the previous one has also ended in the time
+ * zone it ran in, so changing time zones can't fund a period twice. Balances
+ * are read after the user's events are projected, so a run sees the
+ * allocations of the runs before it.
+ */
+
+import { supabase, Tables } from '../db/supabase';
+import { getBucketStates, getUnassignedBalance, roundMoney } from './ledger';
+import { projectUserEventsNow } from './projector';
+import { commitProposals, FundingRule, previewRuleExecution, ProposedAllocation } from './rulesEngine';
+import {
+    daysInMonth,
+    formatDate,
+    formatMonth,
+    isValidTimeZone,
+    ZonedDateParts,
+    zonedDateParts,
+} from '../utils/calendar';
+
+export const SCHEDULED_TRIGGER_TYPES = ['scheduledDaily', 'scheduledWeekly', 'scheduledMonthly'] as const;
+export type ScheduledTriggerType = (typeof SCHEDULED_TRIGGER_TYPES)[number];
+
+// A run left 'running' this long is assumed to have died with its process
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+export interface RuleRun {
+    id: string;
+    user_id: string;
+    trigger_type: ScheduledTriggerType;
+    period: string;
+    run_date: string;
+    time_zone: string;
+    status: 'running' | 'completed' | 'failed';
+    run_number: number;
+    rule_ids: string[];
+    fired_rules: Array<{ rule_id: string; rule_name: string }>;
+    allocations: ProposedAllocation[] | null;
+    total: number | null;
+    error: string | null;
+    started_at: string;
+    completed_at: string | null;
+}
+
+/**
+ * Returns true if a scheduled rule is due on the given local date
+ */
+export function isRuleDueOn(rule: FundingRule, today: ZonedDateParts): boolean {
+    switch (rule.trigger_type) {
+        case 'scheduledDaily':
+            return true;
+        case 'scheduledWeekly':
+            return today.weekday === (rule.conditions?.weekday ?? 1);
+        case 'scheduledMonthly': {
+            const day = Math.min(rule.conditions?.dayOfMonth ?? 1, daysInMonth(today.year, today.month));
+            return today.day === day;
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * The period a trigger runs once in, as a sortable key: the local date for
+ * daily, the date of the week's Sunday for weekly, YYYY-MM for monthly
+ */
+export function runPeriod(triggerType: ScheduledTriggerType, today: ZonedDateParts): string {
+    switch (triggerType) {
+        case 'scheduledDaily':
+            return formatDate(today);
+        case 'scheduledWeekly': {
+            const sunday = new Date(Date.UTC(today.year, today.month - 1, today.day - (today.weekday - 1)));
+            return formatDate({
+                year: sunday.getUTCFullYear(),
+                month: sunday.getUTCMonth() + 1,
+                day: sunday.getUTCDate(),
+            });
+        }
+        case 'scheduledMonthly':
+            return formatMonth(today.year, today.month);
+    }
+}
+
+/**
+ * Drops the condition that picks the run day (already applied by isRuleDueOn)
+ * so a clamped day of month still passes the engine's own condition check
+ */
+function withoutScheduleCondition(rule: FundingRule): FundingRule {
+    if (!rule.conditions) {
+        return rule;
+    }
+    const conditions = { ...rule.conditions };
+    if (rule.trigger_type === 'scheduledWeekly') {
+        delete conditions.weekday;
+    }
+    if (rule.trigger_type === 'scheduledMonthly') {
+        delete conditions.dayOfMonth;
+    }
+    return { ...rule, conditions };
+}
+
+/**
+ * Claims the run row for (user, trigger, period) for the due rules that haven't
+ * run in the period yet. Returns null if there are none, if the previous
+ * period hasn't ended where it ran, or if another process is working on it.
+ */
+async function claimRun(
+    userId: string,
+    triggerType: ScheduledTriggerType,
+    dueRules: FundingRule[],
+    now: Date,
+    timeZone: string
+): Promise<RuleRun | null> {
+    const today = zonedDateParts(now, timeZone);
+    const period = runPeriod(triggerType, today);
+    const runDate = formatDate(today);
+
+    const { data: latest, error } = await supabase
+        .from(Tables.RULE_RUNS)
+        .select('*')
+        .eq('user_id', userId)
+        .eq('trigger_type', triggerType)
+        .order('period', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    if (latest && latest.period !== period) {
+        // After a time zone change the local period can be one that already ran,
+        // or start while the last one is still going where it ran
+        const periodWhereLastRan = runPeriod(triggerType, zonedDateParts(now, latest.time_zone));
+        if (latest.period > period || periodWhereLastRan <= latest.period) {
+            return null;
+        }
+    }
+    const existing = latest?.period === period ? (latest as RuleRun) : null;
+
+    if (!existing) {
+        const { data: created, error: insertError } = await supabase
+            .from(Tables.RULE_RUNS)
+            .insert({
+                user_id: userId,
+                trigger_type: triggerType,
+                period,
+                run_date: runDate,
+                time_zone: timeZone,
+            })
+            .select('*')
+            .single();
+
+        if (insertError) {
+            // Unique violation: another process claimed it first
+            if (insertError.code === '23505') {
+                return null;
+            }
+            throw insertError;
+        }
+        return created as RuleRun;
+    }
+
+    const pending = dueRules.filter((rule) => !existing.rule_ids.includes(rule.id));
+    if (pending.length === 0) {
+        return null;
+    }
+    if (existing.status === 'running' && Date.now() - Date.parse(existing.started_at) < STALE_RUN_MS) {
+        return null;
+    }
+
+    // Rules due later in a completed period start a new run of the row; a failed
+    // or abandoned run is retried as-is so its stored proposals (and event ids) are reused
+    const update =
+        existing.status === 'completed'
+            ? { run_number: existing.run_number + 1, fired_rules: [], allocations: null, total: null }
+            : {};
+
+    // Matching on started_at keeps two processes from both taking it
+    const { data: reclaimed, error: reclaimError } = await supabase
+        .from(Tables.RULE_RUNS)
+        .update({ ...update, status: 'running', run_date: runDate, started_at: new Date().toISOString(), error: null })
+        .eq('id', existing.id)
+        .eq('started_at', existing.started_at)
+        .select('*');
+
+    if (reclaimError) {
+        throw reclaimError;
+    }
+    return (reclaimed?.[0] as RuleRun | undefined) ?? null;
+}
+
+async function executeRun(run: RuleRun, dueRules: FundingRule[], now: Date): Promise<RuleRun> {
+    const rules = dueRules.filter((rule) => !run.rule_ids.includes(rule.id));
+    let proposals = run.allocations;
+
+    if (proposals === null) {
+        // Project first: the projector lags the log, and the balances must
+        // include what earlier runs allocated
+        await projectUserEventsNow(run.user_id);
+
+        const [buckets, unassigned] = await Promise.all([
+            getBucketStates(run.user_id),
+            getUnassignedBalance(run.user_id),
+        ]);
+
+        proposals = previewRuleExecution(rules.map(withoutScheduleCondition), { type: run.trigger_type }, {
+            buckets,
+            availableFunds: Math.max(unassigned, 0),
+            now,
+            timeZone: run.time_zone,
+        });
+
+        const firedRuleIds = new Set(proposals.map((proposal) => proposal.rule_id));
+        const firedRules = rules
+            .filter((rule) => firedRuleIds.has(rule.id))
+            .map((rule) => ({ rule_id: rule.id, rule_name: rule.name }));
+
+        const { error } = await supabase
+            .from(Tables.RULE_RUNS)
+            .update({
+                fired_rules: firedRules,
+                allocations: proposals,
+                total: roundMoney(proposals.reduce((sum, proposal) => sum + proposal.amount, 0)),
+            })
+            .eq('id', run.id);
+
+        if (error) {
+            throw error;
+        }
+    }
+
+    // Same key on every attempt, so events already appended by a crashed attempt are skipped
+    await commitProposals(run.user_id, proposals, `rule-run:${run.id}:${run.run_number}`);
+
+    const { data, error } = await supabase
+        .from(Tables.RULE_RUNS)
+        .update({
+            status: 'completed',
+            rule_ids: [...run.rule_ids, ...rules.map((rule) => rule.id)],
+            completed_at: new Date().toISOString(),
+        })
+        .eq('id', run.id)
+        .select('*')
+        .single();
+
+    if (error) {
+        throw error;
+    }
+    return data as RuleRun;
+}
+
+/**
+ * Runs the scheduled rules that are due for one user today (in their time zone)
+ */
+export async function runScheduledRulesForUser(
+    userId: string,
+    timeZone: string,
+    rules: FundingRule[],
+    now: Date = new Date()
+): Promise<RuleRun[]> {
+    const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+    const today = zonedDateParts(now, zone);
+    const runs: RuleRun[] = [];
+
+    for (const triggerType of SCHEDULED_TRIGGER_TYPES) {
+        const dueRules = rules.filter((rule) => rule.trigger_type === triggerType && isRuleDueOn(rule, today));
+        if (dueRules.length === 0) {
+            continue;
+        }
+
+        const run = await claimRun(userId, triggerType, dueRules, now, zone);
+        if (!run) {
+            continue;
+        }
+
+        try {
+            runs.push(await executeRun(run, dueRules, now));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            await supabase.from(Tables.RULE_RUNS).update({ status: 'failed', error: message }).eq('id', run.id);
+            console.error(`Scheduled ${triggerType} run failed for user ${userId}:`, error);
+        }
+    }
+
+    return runs;
+}
+
+/**
+ * Runs due scheduled rules for every user that has any enabled
+ */
+export async function runAllScheduledRules(now: Date = new Date()): Promise<RuleRun[]> {
+    const { data: rules, error } = await supabase
+        .from(Tables.FUNDING_RULES)
+        .select('id, user_id, name, enabled, priority, trigger_type, conditions, actions')
+        .eq('enabled', true)
+        .in('trigger_type', [...SCHEDULED_TRIGGER_TYPES]);
+
+    if (error) {
+        throw error;
+    }
+
+    const rulesByUser = new Map<string, FundingRule[]>();
+    for (const rule of rules ?? []) {
+        rulesByUser.set(rule.user_id, [...(rulesByUser.get(rule.user_id) ?? []), rule as FundingRule]);
+    }
+    if (rulesByUser.size === 0) {
+        return [];
+    }
+
+    const { data: users, error: usersError } = await supabase
+        .from(Tables.USERS)
+        .select('id, timezone')
+        .in('id', [...rulesByUser.keys()]);
+
+    if (usersError) {
+        throw usersError;
+    }
+
+    const runs: RuleRun[] = [];
+    for (const user of users ?? []) {
+        try {
+            runs.push(...(await runScheduledRulesForUser(user.id, user.timezone, rulesByUser.get(user.id)!, now)));
+        } catch (runError) {
+            console.error(`Error running scheduled rules for user ${user.id}:`, runError);
+        }
+    }
+    return runs;
+}
+
+/**
+ * Starts the in-process scheduler (every RULE_SCHEDULER_INTERVAL_MINUTES).
+ * Runs that fall on a day the server is down for the whole day are not made up.
+ */
+export function startRuleSchedulerJob(): void {
+    const minutes = Number(process.env.RULE_SCHEDULER_INTERVAL_MINUTES ?? 15);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+        console.log('⏸️  Scheduled rule runner disabled');
+        return;
+    }
+
+    let running = false;
+    const run = async () => {
+        if (running) {
+            return;
+        }
+        running = true;
+        try {
+            const runs = await runAllScheduledRules();
+            if (runs.length > 0) {
+                console.log(`✅ Completed ${runs.length} scheduled rule run(s)`);
+            }
+        } catch (error) {
+            console.error('Scheduled rule runner failed:', error);
+        } finally {
+            running = false;
+        }
+    };
+
+    setInterval(run, minutes * 60 * 1000);
+    void run();
+}
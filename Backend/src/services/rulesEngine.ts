@@ -0,0 +1,376 @@
+/**
+ * Funding Rules Engine
+ * Server-side port of the iOS AllocationEngine. Deterministic, not AI-based:
+ * enabled rules matching the trigger run in priority order (lower first),
+ * each consuming from the funds left by the rules before it.
+ */
+
+import crypto from 'crypto';
+import { supabase, Tables } from '../db/supabase';
+import { appendServerEvents } from './eventLog';
+import { BucketState, getBucketStates, getUnassignedBalance, roundMoney } from './ledger';
+import { zonedDateParts } from '../utils/calendar';
+
+export type RuleTrigger =
+    | { type: 'incomeDetected'; transaction: IncomeTransaction }
+    | { type: 'scheduledDaily' }
+    | { type: 'scheduledWeekly' }
+    | { type: 'scheduledMonthly' }
+    | { type: 'manual' }
+    | { type: 'balanceThreshold'; balance: number };
+
+export interface IncomeTransaction {
+    id: string;
+    account_id: string;
+    merchant_name: string | null;
+    amount: number;
+}
+
+export interface FundingRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    priority: number;
+    trigger_type: string;
+    conditions: RuleConditions | null;
+    actions: RuleAction[];
+}
+
+export interface RuleConditions {
+    accountId?: string | null;
+    minAmount?: number | null;
+    merchantContains?: string | null;
+    dayOfMonth?: number | null; // 1-31
+    weekday?: number | null; // 1-7, Sunday=1
+}
+
+export type RuleAction =
+    | { type: 'allocateFixed'; bucketId: string; amount: number }
+    | { type: 'allocatePercent'; bucketId: string; percent: number }
+    | { type: 'fillToTarget'; bucketId: string };
+
+export interface ProposedAllocation {
+    bucket_id: string;
+    bucket_name: string;
+    amount: number;
+    rule_id: string;
+    rule_name: string;
+}
+
+export interface EvaluationContext {
+    buckets: BucketState[];
+    availableFunds: number;
+    now?: Date;
+    timeZone?: string;
+}
+
+const TRIGGER_FOR_RULE_TYPE: Record<string, RuleTrigger['type']> = {
+    onIncomeDetected: 'incomeDetected',
+    scheduledDaily: 'scheduledDaily',
+    scheduledWeekly: 'scheduledWeekly',
+    scheduledMonthly: 'scheduledMonthly',
+    manualRun: 'manual',
+    balanceThreshold: 'balanceThreshold',
+};
+
+export function ruleMatchesTrigger(rule: FundingRule, trigger: RuleTrigger): boolean {
+    return TRIGGER_FOR_RULE_TYPE[rule.trigger_type] === trigger.type;
+}
+
+export function evaluateConditions(
+    conditions: RuleConditions | null,
+    trigger: RuleTrigger,
+    now: Date = new Date(),
+    timeZone: string = 'UTC'
+): boolean {
+    if (!conditions) {
+        return true;
+    }
+
+    if (trigger.type === 'incomeDetected') {
+        const { transaction } = trigger;
+
+        // Account filter
+        if (conditions.accountId && transaction.account_id !== conditions.accountId) {
+            return false;
+        }
+
+        // Amount filter
+        if (conditions.minAmount != null && Math.abs(transaction.amount) < conditions.minAmount) {
+            return false;
+        }
+
+        // Merchant filter
+        if (
+            conditions.merchantContains &&
+            transaction.merchant_name &&
+            !transaction.merchant_name.toLowerCase().includes(conditions.merchantContains.toLowerCase())
+        ) {
+            return false;
+        }
+    }
+
+    const today = zonedDateParts(now, timeZone);
+
+    // Day of month filter
+    if (conditions.dayOfMonth != null && today.day !== conditions.dayOfMonth) {
+        return false;
+    }
+
+    // Weekday filter
+    if (conditions.weekday != null && today.weekday !== conditions.weekday) {
+        return false;
+    }
+
+    return true;
+}
+
+function executeRuleActions(
+    rule: FundingRule,
+    availableFunds: number,
+    bucketsById: Map<string, BucketState>,
+    pendingByBucket: Map<string, number>
+): ProposedAllocation[] {
+    const proposals: ProposedAllocation[] = [];
+    let remaining = availableFunds;
+
+    const propose = (bucket: BucketState, amount: number) => {
+        const allocationAmount = roundMoney(Math.min(amount, remaining));
+        if (allocationAmount > 0) {
+            proposals.push({
+                bucket_id: bucket.id,
+                bucket_name: bucket.name,
+                amount: allocationAmount,
+                rule_id: rule.id,
+                rule_name: rule.name,
+            });
+            remaining = roundMoney(remaining - allocationAmount);
+            pendingByBucket.set(bucket.id, (pendingByBucket.get(bucket.id) ?? 0) + allocationAmount);
+        }
+    };
+
+    for (const action of rule.actions ?? []) {
+        const bucket = bucketsById.get(action.bucketId);
+        if (!bucket) {
+            continue;
+        }
+
+        switch (action.type) {
+            case 'allocateFixed':
+                propose(bucket, Number(action.amount));
+                break;
+
+            case 'allocatePercent':
+                // Round down so percentages never allocate more than they should
+                propose(bucket, Math.floor(remaining * (Number(action.percent) / 100) * 100) / 100);
+                break;
+
+            case 'fillToTarget': {
+                if (bucket.target_amount === null) {
+                    break;
+                }
+                // Count what earlier rules in this run already proposed for the bucket
+                const currentAvailable = bucket.available + (pendingByBucket.get(bucket.id) ?? 0);
+                propose(bucket, Math.max(bucket.target_amount - currentAvailable, 0));
+                break;
+            }
+        }
+    }
+
+    return proposals;
+}
+
+/**
+ * Returns the allocations the matching rules would make. Pure: writes nothing.
+ */
+export function previewRuleExecution(
+    rules: FundingRule[],
+    trigger: RuleTrigger,
+    context: EvaluationContext
+): ProposedAllocation[] {
+    const bucketsById = new Map(context.buckets.map((bucket) => [bucket.id, bucket]));
+    const pendingByBucket = new Map<string, number>();
+    const sortedRules = rules
+        .filter((rule) => rule.enabled && ruleMatchesTrigger(rule, trigger))
+        .sort((a, b) => a.priority - b.priority);
+
+    const proposals: ProposedAllocation[] = [];
+    let remainingFunds = context.availableFunds;
+
+    for (const rule of sortedRules) {
+        if (remainingFunds <= 0) {
+            break;
+        }
+        if (!evaluateConditions(rule.conditions, trigger, context.now, context.timeZone)) {
+            continue;
+        }
+
+        const ruleProposals = executeRuleActions(rule, remainingFunds, bucketsById, pendingByBucket);
+        const ruleAmount = ruleProposals.reduce((sum, proposal) => sum + proposal.amount, 0);
+        remainingFunds = roundMoney(remainingFunds - ruleAmount);
+        proposals.push(...ruleProposals);
+    }
+
+    return proposals;
+}
+
+/**
+ * Loads a user's enabled funding rules
+ */
+export async function getEnabledRules(userId: string): Promise<FundingRule[]> {
+    const { data, error } = await supabase
+        .from(Tables.FUNDING_RULES)
+        .select('id, name, enabled, priority, trigger_type, conditions, actions')
+        .eq('user_id', userId)
+        .eq('enabled', true)
+        .order('priority', { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+    return (data ?? []) as FundingRule[];
+}
+
+/**
+ * Loads rules, bucket balances and available funds, then previews the trigger.
+ * Available funds default to the unassigned balance (capped at the income
+ * amount for income triggers).
+ */
+export async function previewRulesForUser(
+    userId: string,
+    trigger: RuleTrigger,
+    options: { availableFunds?: number; now?: Date; timeZone?: string } = {}
+): Promise<{ availableFunds: number; proposals: ProposedAllocation[] }> {
+    const [rules, buckets, unassigned] = await Promise.all([
+        getEnabledRules(userId),
+        getBucketStates(userId),
+        getUnassignedBalance(userId),
+    ]);
+
+    let availableFunds = options.availableFunds ?? Math.max(unassigned, 0);
+    if (options.availableFunds === undefined && trigger.type === 'incomeDetected') {
+        availableFunds = Math.min(availableFunds, Math.abs(trigger.transaction.amount));
+    }
+
+    const proposals = previewRuleExecution(rules, trigger, {
+        buckets,
+        availableFunds,
+        now: options.now,
+        timeZone: options.timeZone,
+    });
+
+    return { availableFunds, proposals };
+}
+
+/**
+ * The allocation_made payloads that carry out proposals. Pure apart from
+ * generating ids.
+ */
+export function toAllocationPayloads(
+    proposals: ProposedAllocation[],
+    timestamp: string = new Date().toISOString()
+): Array<Record<string, any>> {
+    return proposals.map((proposal) => ({
+        id: crypto.randomUUID(),
+        bucketId: proposal.bucket_id,
+        amount: proposal.amount,
+        sourceType: 'rule',
+        sourceId: proposal.rule_id,
+        timestamp,
+    }));
+}
+
+/**
+ * Appends an allocation_made event per payload to the log (the projector then
+ * writes them to allocation_events). With an idempotency key, appending the
+ * same payloads again is a no-op.
+ */
+async function appendAllocations(
+    userId: string,
+    allocations: Array<Record<string, any>>,
+    idempotencyKey?: string
+): Promise<void> {
+    await appendServerEvents(
+        userId,
+        allocations.map((payload, index) => ({
+            eventId: idempotencyKey ? `${idempotencyKey}:${index}` : undefined,
+            eventType: 'allocation_made',
+            payload,
+        }))
+    );
+}
+
+/**
+ * Appends one allocation_made event per proposal to the log.
+ * With an idempotency key, committing the same proposals again is a no-op.
+ */
+export async function commitProposals(
+    userId: string,
+    proposals: ProposedAllocation[],
+    idempotencyKey?: string
+): Promise<Array<Record<string, any>>> {
+    const allocations = toAllocationPayloads(proposals);
+    await appendAllocations(userId, allocations, idempotencyKey);
+    return allocations;
+}
+
+export interface RuleRunResult {
+    available_funds: number;
+    proposals: ProposedAllocation[];
+    allocations: Array<Record<string, any>>;
+    total: number;
+}
+
+async function getStoredRunResult(userId: string, idempotencyKey: string): Promise<RuleRunResult | null> {
+    const { data, error } = await supabase
+        .from(Tables.RULE_RUN_REQUESTS)
+        .select('result')
+        .eq('user_id', userId)
+        .eq('idempotency_key', idempotencyKey)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    return data ? (data.result as RuleRunResult) : null;
+}
+
+/**
+ * Evaluates rules (via `evaluate`) and appends the allocations they propose.
+ * With an idempotency key the first request's result is stored before its
+ * events are appended; a retry returns that result, appending whatever of it
+ * is missing, instead of evaluating the rules against balances that have
+ * since changed.
+ */
+export async function runRules(
+    userId: string,
+    evaluate: () => Promise<{ availableFunds: number; proposals: ProposedAllocation[] }>,
+    idempotencyKey?: string
+): Promise<RuleRunResult> {
+    let result = idempotencyKey ? await getStoredRunResult(userId, idempotencyKey) : null;
+
+    if (!result) {
+        const { availableFunds, proposals } = await evaluate();
+        result = {
+            available_funds: availableFunds,
+            proposals,
+            allocations: toAllocationPayloads(proposals),
+            total: roundMoney(proposals.reduce((sum, proposal) => sum + proposal.amount, 0)),
+        };
+
+        if (idempotencyKey) {
+            const { error } = await supabase
+                .from(Tables.RULE_RUN_REQUESTS)
+                .insert({ user_id: userId, idempotency_key: idempotencyKey, result });
+            if (error?.code === '23505') {
+                // A concurrent request with the same key stored its result first
+                result = (await getStoredRunResult(userId, idempotencyKey))!;
+            } else if (error) {
+                throw error;
+            }
+        }
+    }
+
+    await appendAllocations(userId, result.allocations, idempotencyKey);
+    return result;
+}
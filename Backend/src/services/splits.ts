@@ -0,0 +1,157 @@
+/**
+ * Transaction Splits
+ * Replaces a transaction's splits, enforcing the ledger invariants:
+ *   - the splits add up to the transaction amount (or there are none)
+ *   - no bucket without allow_negative is pushed below zero (checked by the
+ *     replace_transaction_splits function, under a lock on the buckets)
+ */
+
+import crypto from 'crypto';
+import { supabase, Tables } from '../db/supabase';
+import { appendServerEvents } from './eventLog';
+import { BucketState, getBucketStates } from './ledger';
+
+export interface SplitInput {
+    bucket_id: string | null; // null = unassigned
+    amount: number;
+}
+
+export interface StoredSplit {
+    id: string;
+    bucket_id: string | null;
+    amount: number;
+}
+
+export class SplitValidationError extends Error {
+    constructor(public errors: string[], public status: number = 400) {
+        super(errors.join('; '));
+        this.name = 'SplitValidationError';
+    }
+}
+
+// SQLSTATE the database raises when the splits would overdraw a bucket
+const CHECK_VIOLATION = '23514';
+
+const toCents = (value: number) => Math.round(value * 100);
+
+/**
+ * Returns the violations of the per-split and total invariants of `splits` on
+ * a transaction; bucket balances are checked by the database. Pure.
+ */
+export function validateSplits(transactionAmount: number, splits: SplitInput[], buckets: BucketState[]): string[] {
+    const errors: string[] = [];
+    const bucketIds = new Set(buckets.map((bucket) => bucket.id));
+
+    splits.forEach((split, index) => {
+        if (typeof split.amount !== 'number' || !Number.isFinite(split.amount)) {
+            errors.push(`splits[${index}].amount must be a number`);
+        } else if (toCents(split.amount) === 0) {
+            errors.push(`splits[${index}].amount must not be zero`);
+        }
+        if (split.bucket_id !== null && !bucketIds.has(split.bucket_id)) {
+            errors.push(`splits[${index}].bucket_id: bucket not found`);
+        }
+    });
+    if (errors.length > 0) {
+        return errors;
+    }
+
+    if (splits.length > 0) {
+        const total = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+        if (total !== toCents(transactionAmount)) {
+            errors.push(
+                `Splits add up to ${(total / 100).toFixed(2)}, transaction amount is ${transactionAmount.toFixed(2)}`
+            );
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Returns the splits of several transactions, keyed by transaction id
+ */
+export async function getSplitsByTransaction(transactionIds: string[]): Promise<Map<string, StoredSplit[]>> {
+    const splitsByTransaction = new Map<string, StoredSplit[]>(transactionIds.map((id) => [id, []]));
+    if (transactionIds.length === 0) {
+        return splitsByTransaction;
+    }
+
+    const { data, error } = await supabase
+        .from(Tables.TRANSACTION_SPLITS)
+        .select('id, transaction_id, bucket_id, amount')
+        .in('transaction_id', transactionIds)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    for (const split of data ?? []) {
+        splitsByTransaction.get(split.transaction_id)?.push({
+            id: split.id,
+            bucket_id: split.bucket_id,
+            amount: Number(split.amount),
+        });
+    }
+    return splitsByTransaction;
+}
+
+/**
+ * Validates and replaces a transaction's splits in one database call, then
+ * emits a transaction_split_set sync event. Applying that event again (the
+ * projector does) writes the same rows, so it is harmless.
+ */
+export async function replaceTransactionSplits(
+    userId: string,
+    transactionId: string,
+    splits: SplitInput[]
+): Promise<StoredSplit[]> {
+    const { data: transaction, error } = await supabase
+        .from(Tables.TRANSACTIONS)
+        .select('id, amount')
+        .eq('id', transactionId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    if (!transaction) {
+        throw new SplitValidationError(['Transaction not found'], 404);
+    }
+
+    const buckets = await getBucketStates(userId);
+
+    const errors = validateSplits(Number(transaction.amount), splits, buckets);
+    if (errors.length > 0) {
+        throw new SplitValidationError(errors);
+    }
+
+    const eventSplits = splits.map((split) => ({
+        id: crypto.randomUUID(),
+        bucketId: split.bucket_id,
+        amount: split.amount,
+    }));
+
+    const { error: replaceError } = await supabase.rpc('replace_transaction_splits', {
+        p_transaction_id: transactionId,
+        p_splits: eventSplits,
+        p_enforce_balances: true,
+    });
+    if (replaceError) {
+        if (replaceError.code === CHECK_VIOLATION) {
+            throw new SplitValidationError([replaceError.message]);
+        }
+        throw replaceError;
+    }
+
+    await appendServerEvents(userId, [
+        {
+            eventType: 'transaction_split_set',
+            payload: { transactionId, splits: eventSplits },
+        },
+    ]);
+
+    return eventSplits.map((split) => ({ id: split.id, bucket_id: split.bucketId, amount: split.amount }));
+}
@@ -0,0 +1,471 @@
+/**
+ * Statement Import
+ * Loads CSV and OFX/QFX bank statements into the transactions table under a
+ * manual account, for banks Plaid doesn't cover and history from before an
+ * account was linked.
+ *
+ * Every row gets a stable import hash (the OFX FITID when present, otherwise
+ * account + date + amount + description + occurrence within the file), so
+ * importing overlapping statements skips rows already stored.
+ */
+
+import crypto from 'crypto';
+import { supabase, Tables } from '../db/supabase';
+import {
+    applyMerchantMappings,
+    getMerchantMappingRules,
+    MappableTransaction,
+    matchMerchantRule,
+} from './merchantMapping';
+import { parseCsv } from '../utils/csv';
+
+const MAX_IMPORT_ROWS = 10000;
+const HASH_CHUNK_SIZE = 100;
+
+export const MANUAL_ACCOUNT_PREFIX = 'manual:';
+export const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'] as const;
+
+export type StatementFormat = 'csv' | 'ofx';
+
+export class StatementImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StatementImportError';
+    }
+}
+
+/**
+ * Where each field lives in a CSV: a header name, or a 0-based column index.
+ * Use `amount` for a signed column, or `debit` / `credit` for split columns.
+ */
+export interface CsvColumnMapping {
+    date: string | number;
+    description: string | number;
+    amount?: string | number;
+    debit?: string | number;
+    credit?: string | number;
+    merchant?: string | number;
+    date_format?: (typeof DATE_FORMATS)[number];
+    // For statements that list charges as positive amounts (common for credit cards)
+    negate_amounts?: boolean;
+    delimiter?: string;
+    has_header?: boolean;
+}
+
+export interface StatementRow {
+    line: number; // CSV row (counting the header) or OFX transaction number, for error messages
+    date: string; // YYYY-MM-DD
+    amount: number; // negative = debit
+    description: string;
+    merchant_name: string | null;
+    fitid: string | null;
+}
+
+export interface StatementParseResult {
+    rows: StatementRow[];
+    errors: Array<{ line: number; message: string }>;
+}
+
+export interface StatementImportInput {
+    format: StatementFormat;
+    content: string;
+    account: string;
+    mapping?: CsvColumnMapping;
+}
+
+export interface ImportPreviewRow extends StatementRow {
+    import_hash: string;
+    status: 'new' | 'duplicate';
+    mapped_bucket_id: string | null;
+}
+
+export interface ImportPreview {
+    account_id: string;
+    format: StatementFormat;
+    rows: ImportPreviewRow[];
+    errors: Array<{ line: number; message: string }>;
+    new_count: number;
+    duplicate_count: number;
+}
+
+/**
+ * Parses an amount like "1,234.56", "-$12.00", "(12.00)" or "12.00-". Commas
+ * may only group thousands before a decimal point: "12,50" and "1,234" could
+ * mean either, so they are refused rather than guessed. OFX amounts are never
+ * grouped, so with `commaDecimal` a lone comma is the decimal separator
+ * ("-12,50", which the OFX spec allows).
+ */
+export function parseAmount(value: string, commaDecimal = false): number | null {
+    let text = value.trim().replace(/[$€£\s]/g, '');
+    let negative = false;
+
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    if (text.endsWith('-')) {
+        negative = !negative;
+        text = text.slice(0, -1);
+    }
+    if (text.startsWith('-')) {
+        negative = !negative;
+        text = text.slice(1);
+    } else if (text.startsWith('+')) {
+        text = text.slice(1);
+    }
+
+    if (commaDecimal && /^\d*,\d+$/.test(text)) {
+        text = text.replace(',', '.');
+    } else if (!commaDecimal && /^\d{1,3}(,\d{3})+\.\d+$/.test(text)) {
+        text = text.replace(/,/g, '');
+    }
+
+    if (!/^\d+(\.\d+)?$|^\.\d+$/.test(text)) {
+        return null;
+    }
+    const amount = Math.round(Number(text) * 100) / 100;
+    return negative ? -amount : amount;
+}
+
+/**
+ * Parses a date in the given format into YYYY-MM-DD, or null if it isn't a real date
+ */
+export function parseStatementDate(
+    value: string,
+    format: CsvColumnMapping['date_format'] = 'YYYY-MM-DD'
+): string | null {
+    const text = value.trim();
+    let year: number;
+    let month: number;
+    let day: number;
+
+    if (format === 'YYYY-MM-DD') {
+        const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/.exec(text);
+        if (!match) {
+            return null;
+        }
+        [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else {
+        const match = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/.exec(text);
+        if (!match) {
+            return null;
+        }
+        const [first, second] = [Number(match[1]), Number(match[2])];
+        [month, day] = format === 'MM/DD/YYYY' ? [first, second] : [second, first];
+        year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a CSV statement with a column mapping. Pure.
+ */
+export function parseCsvStatement(content: string, mapping: CsvColumnMapping): StatementParseResult {
+    if (mapping.amount === undefined && mapping.debit === undefined && mapping.credit === undefined) {
+        throw new StatementImportError('mapping needs amount, or debit and/or credit');
+    }
+    if (mapping.date_format !== undefined && !DATE_FORMATS.includes(mapping.date_format)) {
+        throw new StatementImportError(`mapping.date_format must be one of ${DATE_FORMATS.join(', ')}`);
+    }
+
+    const records = parseCsv(content, mapping.delimiter ?? ',');
+    const hasHeader = mapping.has_header ?? true;
+    const header = hasHeader ? (records[0] ?? []).map((name) => name.trim().toLowerCase()) : [];
+
+    const columnIndex = (column: string | number | undefined, field: string): number | undefined => {
+        if (column === undefined) {
+            return undefined;
+        }
+        if (typeof column === 'number') {
+            return column;
+        }
+        const index = header.indexOf(column.trim().toLowerCase());
+        if (index === -1) {
+            throw new StatementImportError(`mapping.${field}: column "${column}" not found in header`);
+        }
+        return index;
+    };
+
+    const columns = {
+        date: columnIndex(mapping.date, 'date')!,
+        description: columnIndex(mapping.description, 'description')!,
+        amount: columnIndex(mapping.amount, 'amount'),
+        debit: columnIndex(mapping.debit, 'debit'),
+        credit: columnIndex(mapping.credit, 'credit'),
+        merchant: columnIndex(mapping.merchant, 'merchant'),
+    };
+
+    const result: StatementParseResult = { rows: [], errors: [] };
+    const dataRecords = hasHeader ? records.slice(1) : records;
+
+    dataRecords.forEach((record, index) => {
+        const line = index + (hasHeader ? 2 : 1);
+        const cell = (column: number | undefined) => (column === undefined ? '' : (record[column] ?? '').trim());
+
+        const date = parseStatementDate(cell(columns.date), mapping.date_format);
+        if (!date) {
+            result.errors.push({ line, message: `Invalid date "${cell(columns.date)}"` });
+            return;
+        }
+
+        let amount: number | null;
+        if (columns.amount !== undefined) {
+            amount = parseAmount(cell(columns.amount));
+        } else {
+            // Split columns: debits are money out, credits money in
+            const debit = cell(columns.debit) ? parseAmount(cell(columns.debit)) : 0;
+            const credit = cell(columns.credit) ? parseAmount(cell(columns.credit)) : 0;
+            amount = debit === null || credit === null ? null : Math.abs(credit) - Math.abs(debit);
+        }
+        if (amount === null) {
+            const raw = [columns.amount, columns.debit, columns.credit].map(cell).join('');
+            result.errors.push({
+                line,
+                message: raw.includes(',')
+                    ? 'Ambiguous amount: use a decimal point, and commas only to group thousands (1,234.56)'
+                    : 'Invalid amount',
+            });
+            return;
+        }
+        if (mapping.negate_amounts) {
+            amount = -amount;
+        }
+
+        const description = cell(columns.description);
+        result.rows.push({
+            line,
+            date,
+            amount: Math.round(amount * 100) / 100,
+            description,
+            merchant_name: cell(columns.merchant) || description || null,
+            fitid: null,
+        });
+    });
+
+    return result;
+}
+
+/**
+ * Parses an OFX/QFX statement (SGML 1.x or XML 2.x). Pure.
+ */
+export function parseOfxStatement(content: string): StatementParseResult {
+    const result: StatementParseResult = { rows: [], errors: [] };
+    const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+    if (blocks.length === 0 && !/<OFX>/i.test(content)) {
+        throw new StatementImportError('content is not an OFX/QFX statement');
+    }
+
+    // SGML OFX leaves leaf elements unclosed, so a value runs to the next tag or line end
+    const tag = (block: string, name: string): string | null => {
+        const match = new RegExp(`<${name}>([^<\\r\\n]*)`, 'i').exec(block);
+        return match ? decodeOfxEntities(match[1].trim()) : null;
+    };
+
+    blocks.forEach((block, index) => {
+        const line = index + 1;
+        const posted = tag(block, 'DTPOSTED');
+        const date =
+            posted && /^\d{8}/.test(posted)
+                ? parseStatementDate(`${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`)
+                : null;
+        if (!date) {
+            result.errors.push({ line, message: `Invalid DTPOSTED "${posted ?? ''}"` });
+            return;
+        }
+
+        // OFX amounts are already signed from the account holder's view (negative = debit)
+        const amount = parseAmount(tag(block, 'TRNAMT') ?? '', true);
+        if (amount === null) {
+            result.errors.push({ line, message: 'Invalid TRNAMT' });
+            return;
+        }
+
+        const name = tag(block, 'NAME') ?? tag(block, 'PAYEE') ?? '';
+        const memo = tag(block, 'MEMO') ?? '';
+        result.rows.push({
+            line,
+            date,
+            amount,
+            description: [name, memo].filter(Boolean).join(' ') || tag(block, 'TRNTYPE') || '',
+            merchant_name: name || memo || null,
+            fitid: tag(block, 'FITID'),
+        });
+    });
+
+    return result;
+}
+
+function decodeOfxEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Turns a free-form account name into the manual account id
+ */
+export function manualAccountId(account: string): string {
+    const slug = account
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+    if (!slug) {
+        throw new StatementImportError('account must contain letters or digits');
+    }
+    return `${MANUAL_ACCOUNT_PREFIX}${slug}`;
+}
+
+/**
+ * Stable per-row hashes. Identical rows in one file (two same-day coffees) are
+ * told apart by their occurrence number, which is the same in any overlapping
+ * statement that contains both. Pure.
+ */
+export function computeImportHashes(accountId: string, rows: StatementRow[]): string[] {
+    const occurrences = new Map<string, number>();
+
+    return rows.map((row) => {
+        let key: string;
+        if (row.fitid) {
+            key = `${accountId}|fitid|${row.fitid}`;
+        } else {
+            const base = [
+                accountId,
+                row.date,
+                Math.round(row.amount * 100),
+                row.description.toLowerCase().replace(/\s+/g, ' ').trim(),
+            ].join('|');
+            const occurrence = (occurrences.get(base) ?? 0) + 1;
+            occurrences.set(base, occurrence);
+            key = `${base}|${occurrence}`;
+        }
+        return crypto.createHash('sha256').update(key).digest('hex');
+    });
+}
+
+function parseStatement(input: StatementImportInput): StatementParseResult {
+    if (typeof input.content !== 'string' || input.content.trim() === '') {
+        throw new StatementImportError('content is required');
+    }
+
+    let parsed: StatementParseResult;
+    if (input.format === 'csv') {
+        if (!input.mapping || typeof input.mapping !== 'object') {
+            throw new StatementImportError('mapping is required for CSV statements');
+        }
+        parsed = parseCsvStatement(input.content, input.mapping);
+    } else if (input.format === 'ofx') {
+        parsed = parseOfxStatement(input.content);
+    } else {
+        throw new StatementImportError('format must be csv or ofx');
+    }
+
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        throw new StatementImportError(`Statements are limited to ${MAX_IMPORT_ROWS} rows per import`);
+    }
+    return parsed;
+}
+
+async function findExistingHashes(userId: string, hashes: string[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+    for (let start = 0; start < hashes.length; start += HASH_CHUNK_SIZE) {
+        const { data, error } = await supabase
+            .from(Tables.TRANSACTIONS)
+            .select('import_hash')
+            .eq('user_id', userId)
+            .in('import_hash', hashes.slice(start, start + HASH_CHUNK_SIZE));
+
+        if (error) {
+            throw error;
+        }
+        for (const row of data ?? []) {
+            existing.add(row.import_hash);
+        }
+    }
+    return existing;
+}
+
+/**
+ * Parses a statement and reports what importing it would do. Writes nothing.
+ */
+export async function previewStatementImport(userId: string, input: StatementImportInput): Promise<ImportPreview> {
+    if (typeof input.account !== 'string') {
+        throw new StatementImportError('account is required');
+    }
+    const accountId = manualAccountId(input.account);
+    const parsed = parseStatement(input);
+    const hashes = computeImportHashes(accountId, parsed.rows);
+
+    const [existing, rules] = await Promise.all([
+        findExistingHashes(userId, hashes),
+        getMerchantMappingRules(userId),
+    ]);
+
+    const rows: ImportPreviewRow[] = parsed.rows.map((row, index) => ({
+        ...row,
+        import_hash: hashes[index],
+        status: existing.has(hashes[index]) ? 'duplicate' : 'new',
+        mapped_bucket_id: row.amount < 0 ? (matchMerchantRule({ id: '', ...row }, rules)?.bucket_id ?? null) : null,
+    }));
+
+    return {
+        account_id: accountId,
+        format: input.format,
+        rows,
+        errors: parsed.errors,
+        new_count: rows.filter((row) => row.status === 'new').length,
+        duplicate_count: rows.filter((row) => row.status === 'duplicate').length,
+    };
+}
+
+/**
+ * Imports the statement's new rows, publishes them as transaction_imported
+ * events and runs merchant mapping over them. Rows and events are written in
+ * one database call, so a failed import leaves nothing behind. Rows whose hash
+ * is already stored are skipped, so committing the same statement twice is
+ * harmless. A mapping failure leaves the imported rows unassigned.
+ */
+export async function commitStatementImport(
+    userId: string,
+    input: StatementImportInput
+): Promise<ImportPreview & { imported: number; mapped: number }> {
+    const preview = await previewStatementImport(userId, input);
+    const newRows = preview.rows.filter((row) => row.status === 'new');
+
+    let inserted: Array<MappableTransaction & Record<string, any>> = [];
+    if (newRows.length > 0) {
+        const { data, error } = await supabase.rpc('import_statement_transactions', {
+            p_user_id: userId,
+            p_rows: newRows.map((row) => ({
+                account_id: preview.account_id,
+                merchant_name: row.merchant_name?.slice(0, 255) ?? null,
+                amount: row.amount,
+                date: row.date,
+                description: row.description || null,
+                import_hash: row.import_hash,
+            })),
+        });
+
+        if (error) {
+            throw error;
+        }
+        inserted = data ?? [];
+    }
+
+    let mapped = 0;
+    try {
+        mapped = (await applyMerchantMappings(userId, inserted)).length;
+    } catch (mappingError) {
+        console.error(`Error applying merchant mappings to imported ${preview.account_id} rows:`, mappingError);
+    }
+
+    return { ...preview, imported: inserted.length, mapped };
+}
@@ -0,0 +1,312 @@
+/**
+ * Transaction Ingestion
+ * Pulls transactions from Plaid /transactions/sync with a cursor stored per
+ * item, upserts them into the transactions table and emits sync events
+ */
+
+import { RemovedTransaction, Transaction as PlaidTransaction } from 'plaid';
+import { supabase, Tables } from '../db/supabase';
+import { appendServerEvents } from './eventLog';
+import { applyMerchantMappings } from './merchantMapping';
+import {
+    getAllStoredItems,
+    getPlaidErrorCode,
+    getStoredItems,
+    isItemLinked,
+    plaidClient,
+    recordItemError,
+    recordItemSuccess,
+    StoredPlaidItem,
+} from './plaid';
+
+const SYNC_PAGE_SIZE = 500;
+const MAX_PAGINATION_RESTARTS = 3;
+
+export interface ItemSyncResult {
+    item_id: string;
+    added: number;
+    modified: number;
+    removed: number;
+    mapped: number;
+    error?: string;
+}
+
+const inFlightSyncs = new Map<string, Promise<ItemSyncResult>>();
+
+/**
+ * Converts a Plaid transaction to a transactions row.
+ * Plaid reports outflows as positive amounts; we store debits as negative
+ * (matching the iOS Transaction model).
+ */
+function toTransactionRow(userId: string, itemId: string, transaction: PlaidTransaction) {
+    return {
+        user_id: userId,
+        plaid_item_id: itemId,
+        plaid_transaction_id: transaction.transaction_id,
+        account_id: transaction.account_id,
+        merchant_name: transaction.merchant_name ?? transaction.name ?? null,
+        amount: -transaction.amount,
+        date: transaction.date,
+        category: transaction.category ?? null,
+        description: transaction.name ?? null,
+        is_pending: transaction.pending,
+    };
+}
+
+/**
+ * Builds the sync event payload for a stored transaction row
+ */
+export function toTransactionEventPayload(row: Record<string, any>): Record<string, any> {
+    return {
+        id: row.id,
+        plaidTransactionId: row.plaid_transaction_id,
+        accountId: row.account_id,
+        merchantName: row.merchant_name,
+        amount: Number(row.amount),
+        date: row.date,
+        category: row.category,
+        description: row.description,
+        isPending: row.is_pending,
+    };
+}
+
+async function fetchChanges(item: StoredPlaidItem) {
+    for (let attempt = 0; ; attempt++) {
+        const added: PlaidTransaction[] = [];
+        const modified: PlaidTransaction[] = [];
+        const removed: RemovedTransaction[] = [];
+        let cursor = item.transactions_cursor ?? undefined;
+        let hasMore = true;
+
+        try {
+            while (hasMore) {
+                const response = await plaidClient.transactionsSync({
+                    access_token: item.access_token,
+                    cursor,
+                    count: SYNC_PAGE_SIZE,
+                });
+                added.push(...response.data.added);
+                modified.push(...response.data.modified);
+                removed.push(...response.data.removed);
+                cursor = response.data.next_cursor;
+                hasMore = response.data.has_more;
+            }
+            return { added, modified, removed, cursor };
+        } catch (error) {
+            // Plaid requires restarting from the original cursor in this case
+            if (
+                getPlaidErrorCode(error) === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' &&
+                attempt < MAX_PAGINATION_RESTARTS
+            ) {
+                continue;
+            }
+            throw error;
+        }
+    }
+}
+
+async function runItemSync(item: StoredPlaidItem): Promise<ItemSyncResult> {
+    let changes: Awaited<ReturnType<typeof fetchChanges>>;
+    try {
+        changes = await fetchChanges(item);
+    } catch (error) {
+        await recordItemError(item.item_id, error);
+        throw error;
+    }
+    // The item may have been unlinked while Plaid was answering; writing now
+    // would bring back transactions its removal purged
+    if (!(await isItemLinked(item.item_id))) {
+        return { item_id: item.item_id, added: 0, modified: 0, removed: 0, mapped: 0, error: 'Item was removed' };
+    }
+    await recordItemSuccess(item);
+    const { added, modified, removed, cursor } = changes;
+
+    const upserts = [...added, ...modified].map((transaction) =>
+        toTransactionRow(item.user_id, item.item_id, transaction)
+    );
+
+    let mapped = 0;
+    if (upserts.length > 0) {
+        const { data, error } = await supabase
+            .from(Tables.TRANSACTIONS)
+            .upsert(upserts, { onConflict: 'plaid_transaction_id' })
+            .select();
+
+        if (error) {
+            throw error;
+        }
+
+        await appendServerEvents(
+            item.user_id,
+            (data ?? []).map((row) => ({
+                eventType: 'transaction_imported',
+                payload: toTransactionEventPayload(row),
+            }))
+        );
+
+        // Auto-categorize new transactions; modified ones keep whatever splits they have.
+        // A mapping failure leaves them unassigned rather than failing the sync.
+        const addedIds = new Set(added.map((transaction) => transaction.transaction_id));
+        try {
+            const matches = await applyMerchantMappings(
+                item.user_id,
+                (data ?? []).filter((row) => addedIds.has(row.plaid_transaction_id))
+            );
+            mapped = matches.length;
+        } catch (mappingError) {
+            console.error(`Error applying merchant mappings for item ${item.item_id}:`, mappingError);
+        }
+    }
+
+    const removedIds = removed.map((transaction) => transaction.transaction_id);
+    if (removedIds.length > 0) {
+        const { data, error } = await supabase
+            .from(Tables.TRANSACTIONS)
+            .delete()
+            .eq('user_id', item.user_id)
+            .in('plaid_transaction_id', removedIds)
+            .select('id, plaid_transaction_id');
+
+        if (error) {
+            throw error;
+        }
+
+        await appendServerEvents(
+            item.user_id,
+            (data ?? []).map((row) => ({
+                eventType: 'transaction_removed',
+                payload: { id: row.id, plaidTransactionId: row.plaid_transaction_id },
+            }))
+        );
+    }
+
+    // Only advance the cursor once the changes are stored, so a failed run is retried
+    const { error: cursorError } = await supabase
+        .from(Tables.PLAID_ITEMS)
+        .update({
+            transactions_cursor: cursor ?? null,
+            last_synced_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('item_id', item.item_id);
+
+    if (cursorError) {
+        throw cursorError;
+    }
+
+    return {
+        item_id: item.item_id,
+        added: added.length,
+        modified: modified.length,
+        removed: removedIds.length,
+        mapped,
+    };
+}
+
+/**
+ * Runs an incremental sync for one item. Concurrent calls for the same item
+ * share a single run.
+ */
+export function syncItemTransactions(item: StoredPlaidItem): Promise<ItemSyncResult> {
+    const existing = inFlightSyncs.get(item.item_id);
+    if (existing) {
+        return existing;
+    }
+
+    const run = runItemSync(item).finally(() => {
+        inFlightSyncs.delete(item.item_id);
+    });
+    inFlightSyncs.set(item.item_id, run);
+    return run;
+}
+
+/**
+ * Waits for a sync of the item that is already running, if any, to finish
+ */
+export async function waitForItemSync(itemId: string): Promise<void> {
+    await inFlightSyncs.get(itemId)?.catch(() => undefined);
+}
+
+/**
+ * Syncs every item belonging to a user. A failing item is reported in its
+ * result (and its status recorded) without stopping the others.
+ */
+export async function syncUserTransactions(userId: string): Promise<ItemSyncResult[]> {
+    const { items, unreadable } = await getStoredItems(userId);
+    const results: ItemSyncResult[] = unreadable.map((item) => ({
+        item_id: item.item_id,
+        added: 0,
+        modified: 0,
+        removed: 0,
+        mapped: 0,
+        error: `Access token can't be decrypted: ${item.error}`,
+    }));
+    for (const item of items) {
+        try {
+            results.push(await syncItemTransactions(item));
+        } catch (error) {
+            results.push({
+                item_id: item.item_id,
+                added: 0,
+                modified: 0,
+                removed: 0,
+                mapped: 0,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+    return results;
+}
+
+/**
+ * Syncs every linked item. Failures are logged per item so one broken
+ * connection doesn't stop the rest.
+ */
+export async function syncAllTransactions(): Promise<void> {
+    const items = await getAllStoredItems();
+    for (const item of items) {
+        // Revoked items can't recover without a new Link, so don't keep hitting Plaid
+        if (item.status === 'revoked' || item.status === 'removed') {
+            continue;
+        }
+        try {
+            const result = await syncItemTransactions(item);
+            if (result.added + result.modified + result.removed > 0) {
+                console.log(
+                    `🔄 Synced item ${item.item_id}: +${result.added} ~${result.modified} -${result.removed}`
+                );
+            }
+        } catch (error) {
+            console.error(`Error syncing transactions for item ${item.item_id}:`, error);
+        }
+    }
+}
+
+/**
+ * Starts the periodic ingestion job (PLAID_SYNC_INTERVAL_MINUTES, default 30; 0 disables)
+ */
+export function startTransactionIngestionJob(): void {
+    const minutes = Number(process.env.PLAID_SYNC_INTERVAL_MINUTES ?? 30);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+        console.log('⏸️  Transaction ingestion job disabled');
+        return;
+    }
+
+    let running = false;
+    const run = async () => {
+        if (running) {
+            return;
+        }
+        running = true;
+        try {
+            await syncAllTransactions();
+        } catch (error) {
+            console.error('Transaction ingestion job failed:', error);
+        } finally {
+            running = false;
+        }
+    };
+
+    setInterval(run, minutes * 60 * 1000);
+    void run();
+}
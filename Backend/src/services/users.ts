@@ -0,0 +1,21 @@
+/**
+ * User Settings
+ */
+
+import { supabase, Tables } from '../db/supabase';
+
+/**
+ * Returns the user's IANA time zone (UTC if the user has none)
+ */
+export async function getUserTimeZone(userId: string): Promise<string> {
+    const { data, error } = await supabase
+        .from(Tables.USERS)
+        .select('timezone')
+        .eq('id', userId)
+        .maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+    return data?.timezone ?? 'UTC';
+}
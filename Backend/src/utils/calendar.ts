@@ -0,0 +1,115 @@
+/**
+ * Time Zone-Aware Calendar Helpers
+ */
+
+export interface ZonedDateParts {
+    year: number;
+    month: number; // 1-12
+    day: number; // 1-31
+    weekday: number; // 1-7, Sunday=1 (matches Swift Calendar)
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Returns the calendar date of an instant in the given IANA time zone
+ */
+export function zonedDateParts(date: Date, timeZone: string = 'UTC'): ZonedDateParts {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        weekday: 'short',
+    }).formatToParts(date);
+
+    const value = (type: string) => parts.find((part) => part.type === type)?.value ?? '';
+    return {
+        year: Number(value('year')),
+        month: Number(value('month')),
+        day: Number(value('day')),
+        weekday: WEEKDAYS.indexOf(value('weekday')) + 1,
+    };
+}
+
+/**
+ * Returns the instant local midnight begins on a calendar date in the given
+ * time zone (the first instant of the day if midnight is skipped by DST)
+ */
+export function zonedStartOfDay(year: number, month: number, day: number, timeZone: string = 'UTC'): Date {
+    const wallClock = Date.UTC(year, month - 1, day);
+    const offsetAt = (instant: number) => {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        }).formatToParts(new Date(instant));
+        const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+        const asUtc = Date.UTC(
+            value('year'),
+            value('month') - 1,
+            value('day'),
+            value('hour'),
+            value('minute'),
+            value('second')
+        );
+        return asUtc - Math.floor(instant / 1000) * 1000;
+    };
+
+    // Two passes settle the offset when the guess lands on the other side of a DST change
+    let instant = wallClock - offsetAt(wallClock);
+    instant = wallClock - offsetAt(instant);
+    return new Date(instant);
+}
+
+/**
+ * Returns true if the string is a time zone this runtime recognizes
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Number of days in a month (month is 1-12)
+ */
+export function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * The month before a year/month (month is 1-12)
+ */
+export function previousMonth(year: number, month: number): { year: number; month: number } {
+    return month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 };
+}
+
+/**
+ * The month after a year/month (month is 1-12)
+ */
+export function nextMonth(year: number, month: number): { year: number; month: number } {
+    return month === 12 ? { year: year + 1, month: 1 } : { year, month: month + 1 };
+}
+
+/**
+ * Formats a year/month as YYYY-MM
+ */
+export function formatMonth(year: number, month: number): string {
+    return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD
+ */
+export function formatDate(parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'>): string {
+    return `${formatMonth(parts.year, parts.month)}-${String(parts.day).padStart(2, '0')}`;
+}
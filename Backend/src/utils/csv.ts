@@ -0,0 +1,84 @@
+/**
+ * Minimal CSV Parser and Writer
+ * RFC 4180: quoted fields may contain delimiters, newlines and doubled quotes
+ */
+
+/**
+ * Parses CSV text into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Strip a UTF-8 byte order mark, which spreadsheet exports often include
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0].trim() !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n') {
+            endRow();
+        } else if (char === '\r') {
+            if (input[i + 1] === '\n') {
+                i++;
+            }
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+    return rows;
+}
+
+/**
+ * Formats rows as CSV. Text that a spreadsheet would run as a formula is
+ * prefixed with a quote.
+ */
+export function toCsv(rows: Array<Array<string | number | boolean | null | undefined>>): string {
+    const formatField = (value: string | number | boolean | null | undefined) => {
+        if (value === null || value === undefined) {
+            return '';
+        }
+        let text = String(value);
+        if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+            text = `'${text}`;
+        }
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return rows.map((row) => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,44 @@
+/**
+ * Opaque Keyset Pagination Cursors
+ * Encodes the sort key of the last row on a page as base64url JSON
+ */
+
+export function encodeCursor(values: Record<string, string | number>): string {
+    return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor, returning null if it is malformed or missing any of the expected keys
+ */
+export function decodeCursor<K extends string>(
+    cursor: string,
+    keys: readonly K[]
+): Record<K, string> | null {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (!decoded || typeof decoded !== 'object') {
+            return null;
+        }
+        const result = {} as Record<K, string>;
+        for (const key of keys) {
+            if (decoded[key] === undefined || decoded[key] === null) {
+                return null;
+            }
+            result[key] = String(decoded[key]);
+        }
+        return result;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parses a page size query parameter, clamped to [1, max]
+ */
+export function parseLimit(value: unknown, defaultLimit: number, max: number): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        return defaultLimit;
+    }
+    return Math.min(parsed, max);
+}
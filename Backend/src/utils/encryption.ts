@@ -0,0 +1,149 @@
+/**
+ * Envelope Encryption for Secrets at Rest
+ * Each value is encrypted with a fresh AES-256-GCM data key, and the data key
+ * is wrapped with a versioned master key from the environment:
+ *
+ *   ENCRYPTION_KEY           - active master key (base64, 32 bytes)
+ *   ENCRYPTION_KEY_ID        - id of the active key (default: v1)
+ *   ENCRYPTION_PREVIOUS_KEYS - retired keys still needed for decryption,
+ *                              as comma-separated "id:base64key" pairs
+ *
+ * Serialized format: env1.<keyId>.<wrapIv>.<wrappedKey>.<wrapTag>.<iv>.<ciphertext>.<tag>
+ */
+
+import crypto from 'crypto';
+
+const FORMAT_PREFIX = 'env1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+type Keyring = {
+    activeKeyId: string;
+    keys: Map<string, Buffer>;
+};
+
+let cachedKeyring: Keyring | null = null;
+
+function parseKey(keyId: string, encoded: string): Buffer {
+    if (!KEY_ID_PATTERN.test(keyId)) {
+        throw new Error(`Invalid encryption key id: ${keyId}`);
+    }
+    const key = Buffer.from(encoded.trim(), 'base64');
+    if (key.length !== KEY_BYTES) {
+        throw new Error(`Encryption key ${keyId} must be ${KEY_BYTES} bytes (base64 encoded)`);
+    }
+    return key;
+}
+
+function loadKeyring(): Keyring {
+    if (cachedKeyring) {
+        return cachedKeyring;
+    }
+
+    if (!process.env.ENCRYPTION_KEY) {
+        throw new Error('ENCRYPTION_KEY is not set');
+    }
+
+    const activeKeyId = process.env.ENCRYPTION_KEY_ID || 'v1';
+    const keys = new Map<string, Buffer>();
+
+    for (const entry of (process.env.ENCRYPTION_PREVIOUS_KEYS ?? '').split(',')) {
+        if (entry.trim().length === 0) {
+            continue;
+        }
+        const separator = entry.indexOf(':');
+        if (separator === -1) {
+            throw new Error('ENCRYPTION_PREVIOUS_KEYS entries must be "id:base64key"');
+        }
+        const keyId = entry.slice(0, separator).trim();
+        keys.set(keyId, parseKey(keyId, entry.slice(separator + 1)));
+    }
+
+    keys.set(activeKeyId, parseKey(activeKeyId, process.env.ENCRYPTION_KEY));
+
+    cachedKeyring = { activeKeyId, keys };
+    return cachedKeyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+function open(key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer): Buffer {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Returns the id of the master key new values are encrypted with
+ */
+export function getActiveKeyId(): string {
+    return loadKeyring().activeKeyId;
+}
+
+/**
+ * Returns true if the value is in the envelope format (vs. legacy plaintext)
+ */
+export function isEncrypted(value: string): boolean {
+    return value.startsWith(`${FORMAT_PREFIX}.`);
+}
+
+/**
+ * Returns the master key id a value was encrypted with, or null for plaintext
+ */
+export function getKeyId(value: string): string | null {
+    return isEncrypted(value) ? value.split('.')[1] ?? null : null;
+}
+
+/**
+ * Encrypts a secret with a new data key wrapped by the active master key
+ */
+export function encryptSecret(plaintext: string): string {
+    const { activeKeyId, keys } = loadKeyring();
+    const masterKey = keys.get(activeKeyId)!;
+
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+    const wrapped = seal(masterKey, dataKey);
+    const sealed = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+    return [
+        FORMAT_PREFIX,
+        activeKeyId,
+        wrapped.iv,
+        wrapped.ciphertext,
+        wrapped.tag,
+        sealed.iv,
+        sealed.ciphertext,
+        sealed.tag,
+    ]
+        .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+        .join('.');
+}
+
+/**
+ * Decrypts a value produced by encryptSecret with whichever master key it names
+ */
+export function decryptSecret(value: string): string {
+    const parts = value.split('.');
+    if (parts.length !== 8 || parts[0] !== FORMAT_PREFIX) {
+        throw new Error('Value is not in the encrypted envelope format');
+    }
+
+    const [, keyId, ...encoded] = parts;
+    const masterKey = loadKeyring().keys.get(keyId);
+    if (!masterKey) {
+        throw new Error(`Unknown encryption key id: ${keyId}`);
+    }
+
+    const [wrapIv, wrappedKey, wrapTag, iv, ciphertext, tag] = encoded.map((part) =>
+        Buffer.from(part, 'base64url')
+    );
+    const dataKey = open(masterKey, wrapIv, wrappedKey, wrapTag);
+    return open(dataKey, iv, ciphertext, tag).toString('utf8');
+}
@@ -0,0 +1,66 @@
+import { AccountArchive, ArchiveError, collectArchiveIds } from '../src/services/archive';
+
+const id = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+function archiveWith(overrides: Partial<AccountArchive>): AccountArchive {
+    return {
+        format: 'bucketpilot-archive',
+        version: 1,
+        exported_at: '2026-03-01T12:00:00.000Z',
+        user: { timezone: 'UTC' },
+        buckets: [],
+        funding_rules: [],
+        merchant_mapping_rules: [],
+        month_closes: [],
+        transactions: [],
+        transaction_splits: [],
+        allocation_events: [],
+        events: [],
+        balances: { unassigned_balance: 0, buckets: [] },
+        ...overrides,
+    };
+}
+
+const event = (eventType: string, payload: Record<string, unknown>) => ({
+    event_type: eventType,
+    timestamp: '2026-02-01T00:00:00.000Z',
+    payload,
+});
+
+describe('collectArchiveIds', () => {
+    it('collects the ids of rows and of everything the events create', () => {
+        const ids = collectArchiveIds(
+            archiveWith({
+                transactions: [{ id: id(1) }],
+                buckets: [{ id: id(2) }],
+                allocation_events: [{ id: id(4) }],
+                events: [
+                    event('bucket_created', { id: id(2), name: 'Rent' }),
+                    // Deleted before the export, so only the event has it
+                    event('bucket_created', { id: id(3), name: 'Old' }),
+                    event('bucket_deleted', { id: id(3) }),
+                    event('rule_created', { id: id(5), name: 'Payday' }),
+                    event('allocation_made', { id: id(4), bucketId: id(2), amount: 10 }),
+                    event('allocation', { id: id(6), bucketId: id(2), amount: 5 }),
+                    event('transaction_split_set', {
+                        transactionId: id(1),
+                        splits: [{ id: id(7), bucketId: id(2), amount: -5 }, { bucketId: null, amount: -1 }],
+                    }),
+                ],
+            })
+        );
+
+        expect(ids).toEqual({
+            transactions: [id(1)],
+            buckets: [id(2), id(3)],
+            funding_rules: [id(5)],
+            allocation_events: [id(4), id(6)],
+            transaction_splits: [id(7)],
+        });
+    });
+
+    it('rejects ids that are not UUIDs', () => {
+        const archive = archiveWith({ events: [event('bucket_created', { id: 'rent', name: 'Rent' })] });
+        expect(() => collectArchiveIds(archive)).toThrow(ArchiveError);
+    });
+});
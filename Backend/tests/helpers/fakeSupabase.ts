@@ -0,0 +1,232 @@
+/**
+ * In-Memory Supabase
+ * Enough of the query builder for the services under test: filters, ordering,
+ * limits and inserts/upserts against plain arrays. Rows get an id, created_at
+ * (from Date.now(), so tests can move the clock) and, for tables listed in
+ * `sequenced`, an increasing sequence in commit order, as the real tables do.
+ */
+
+import crypto from 'crypto';
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+interface Result {
+    data: any;
+    error: { message: string; code?: string } | null;
+}
+
+export class FakeSupabase {
+    tables: Record<string, Row[]> = {};
+    // Primary key of tables not keyed by id, used by upserts without onConflict
+    primaryKeys: Record<string, string> = { projection_checkpoints: 'user_id' };
+    // Tables whose queries fail with the given error, e.g. to simulate an outage
+    failing: Record<string, { message: string; code?: string }> = {};
+    private sequences: Record<string, number> = {};
+
+    constructor(private sequenced: string[] = ['events']) {}
+
+    table(name: string): Row[] {
+        return (this.tables[name] ??= []);
+    }
+
+    /**
+     * Adds rows as the database would on insert
+     */
+    seed(name: string, rows: Row[]): Row[] {
+        const stored = rows.map((row) => {
+            const complete: Row = { id: crypto.randomUUID(), created_at: new Date(Date.now()).toISOString(), ...row };
+            if (this.sequenced.includes(name) && complete.sequence === undefined) {
+                complete.sequence = this.sequences[name] = (this.sequences[name] ?? 0) + 1;
+            }
+            return complete;
+        });
+        this.table(name).push(...stored);
+        return stored;
+    }
+
+    from(name: string): FakeQuery {
+        return new FakeQuery(this, name);
+    }
+}
+
+class FakeQuery implements PromiseLike<Result> {
+    private filters: Filter[] = [];
+    private orders: Array<{ column: string; ascending: boolean }> = [];
+    private limitCount: number | null = null;
+    private offset = 0;
+    private single = false;
+    private mutation: (() => Row[] | Result) | null = null;
+    private returnRows = false;
+
+    constructor(private db: FakeSupabase, private name: string) {}
+
+    select(_columns?: string): this {
+        this.returnRows = true;
+        return this;
+    }
+
+    insert(values: Row | Row[]): this {
+        this.mutation = () => {
+            const rows = Array.isArray(values) ? values : [values];
+            const conflict = this.findConflict(rows, ['id']);
+            if (conflict) {
+                return conflict;
+            }
+            return this.db.seed(this.name, rows);
+        };
+        return this;
+    }
+
+    upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+        this.mutation = () => {
+            const keys = (options.onConflict ?? this.db.primaryKeys[this.name] ?? 'id').split(',').map((key) => key.trim());
+            const written: Row[] = [];
+            for (const row of Array.isArray(values) ? values : [values]) {
+                const existing = this.db
+                    .table(this.name)
+                    .find((candidate) => keys.every((key) => row[key] !== null && candidate[key] === row[key]));
+                if (!existing) {
+                    written.push(...this.db.seed(this.name, [row]));
+                } else if (!options.ignoreDuplicates) {
+                    Object.assign(existing, row);
+                    written.push(existing);
+                }
+            }
+            return written;
+        };
+        return this;
+    }
+
+    update(values: Row): this {
+        this.mutation = () => {
+            const rows = this.matching();
+            rows.forEach((row) => Object.assign(row, values));
+            return rows;
+        };
+        return this;
+    }
+
+    delete(): this {
+        this.mutation = () => {
+            const rows = this.matching();
+            this.db.tables[this.name] = this.db.table(this.name).filter((row) => !rows.includes(row));
+            return rows;
+        };
+        return this;
+    }
+
+    eq(column: string, value: unknown): this {
+        return this.where((row) => row[column] === value);
+    }
+
+    neq(column: string, value: unknown): this {
+        return this.where((row) => row[column] !== value);
+    }
+
+    gt(column: string, value: any): this {
+        return this.where((row) => row[column] > value);
+    }
+
+    gte(column: string, value: any): this {
+        return this.where((row) => row[column] >= value);
+    }
+
+    lt(column: string, value: any): this {
+        return this.where((row) => row[column] < value);
+    }
+
+    lte(column: string, value: any): this {
+        return this.where((row) => row[column] <= value);
+    }
+
+    in(column: string, values: unknown[]): this {
+        return this.where((row) => values.includes(row[column]));
+    }
+
+    is(column: string, value: unknown): this {
+        return this.where((row) => (row[column] ?? null) === value);
+    }
+
+    order(column: string, options: { ascending?: boolean } = {}): this {
+        this.orders.push({ column, ascending: options.ascending ?? true });
+        return this;
+    }
+
+    limit(count: number): this {
+        this.limitCount = count;
+        return this;
+    }
+
+    range(from: number, to: number): this {
+        this.offset = from;
+        this.limitCount = to - from + 1;
+        return this;
+    }
+
+    maybeSingle(): this {
+        this.single = true;
+        return this;
+    }
+
+    then<TResult1 = Result, TResult2 = never>(
+        onfulfilled?: ((value: Result) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+    }
+
+    private where(filter: Filter): this {
+        this.filters.push(filter);
+        return this;
+    }
+
+    private matching(): Row[] {
+        return this.db.table(this.name).filter((row) => this.filters.every((filter) => filter(row)));
+    }
+
+    private findConflict(rows: Row[], keys: string[]): Result | null {
+        const table = this.db.table(this.name);
+        const duplicate = rows.some((row) =>
+            table.some((existing) => keys.every((key) => row[key] !== undefined && existing[key] === row[key]))
+        );
+        return duplicate ? { data: null, error: { message: 'duplicate key value', code: '23505' } } : null;
+    }
+
+    private execute(): Result {
+        const failure = this.db.failing[this.name];
+        if (failure) {
+            return { data: null, error: failure };
+        }
+
+        let rows: Row[];
+        if (this.mutation) {
+            const outcome = this.mutation();
+            if (!Array.isArray(outcome)) {
+                return outcome;
+            }
+            if (!this.returnRows) {
+                return { data: null, error: null };
+            }
+            rows = outcome;
+        } else {
+            rows = this.matching();
+        }
+
+        rows = [...rows].sort((a, b) => {
+            for (const { column, ascending } of this.orders) {
+                if (a[column] !== b[column]) {
+                    return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+                }
+            }
+            return 0;
+        });
+        rows = rows.slice(this.offset, this.limitCount === null ? undefined : this.offset + this.limitCount);
+        rows = rows.map((row) => ({ ...row }));
+
+        if (this.single) {
+            return { data: rows[0] ?? null, error: null };
+        }
+        return { data: rows, error: null };
+    }
+}
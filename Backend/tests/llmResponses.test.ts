@@ -0,0 +1,278 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createAnthropicProvider } from '../src/llm/anthropic';
+import { createFixtureProvider, parseFixtures, recordingProvider, selectFixture } from '../src/llm/fixtures';
+import { createOpenAICompatibleProvider } from '../src/llm/openai';
+import { coerceToolInput, normalizeActions, parseProposal, resolveActions } from '../src/llm/parse';
+import { ProposalStreamParser } from '../src/llm/stream';
+import { LLMProvider, LLMProviderError, ProposeActionsRequest } from '../src/llm/types';
+import responses from './fixtures/llm-responses.json';
+
+const mockCreate = jest.fn();
+
+jest.mock('@anthropic-ai/sdk', () => ({
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({ messages: { create: mockCreate } })),
+}));
+
+const REQUEST: ProposeActionsRequest = {
+    system: 'You are a budgeting copilot.',
+    messages: [{ role: 'user', content: '{"command":"test"}' }],
+    maxTokens: 1024,
+};
+
+/** A recorded chat completion stream, as the server sends it: SSE lines cut into uneven network chunks */
+function sseBody(chunks: unknown[]): ReadableStream<Uint8Array> {
+    const text = [...chunks.map((chunk) => `data: ${JSON.stringify(chunk)}`), 'data: [DONE]'].join('\n\n') + '\n\n';
+    const bytes = new TextEncoder().encode(text);
+    return new ReadableStream({
+        start(controller) {
+            for (let start = 0; start < bytes.length; start += 97) {
+                controller.enqueue(bytes.slice(start, start + 97));
+            }
+            controller.close();
+        },
+    });
+}
+
+function mockFetch(body: BodyInit) {
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(body, { status: 200 }));
+}
+
+async function collect(fragments: AsyncIterable<string>): Promise<string[]> {
+    const collected: string[] = [];
+    for await (const fragment of fragments) {
+        collected.push(fragment);
+    }
+    return collected;
+}
+
+/** Feeds fragments through the stream parser, as /ai/command/stream does */
+function parseStream(fragments: string[]) {
+    let summary = '';
+    const actions: unknown[] = [];
+    const parser = new ProposalStreamParser({
+        onSummary: (delta) => {
+            summary += delta;
+        },
+        onAction: (action) => {
+            actions.push(action);
+        },
+    });
+    fragments.forEach((fragment) => parser.push(fragment));
+    return { summary, actions, fullText: parser.fullText };
+}
+
+async function replay(provider: LLMProvider) {
+    const raw = await provider.proposeActions(REQUEST);
+    return { raw, parsed: coerceToolInput(raw) };
+}
+
+async function replayStream(provider: LLMProvider) {
+    return parseStream(await collect(provider.streamActions!(REQUEST, new AbortController().signal)));
+}
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    mockCreate.mockReset();
+    delete process.env.OPENAI_BASE_URL;
+});
+
+describe('recorded Anthropic responses', () => {
+    beforeEach(() => {
+        process.env.ANTHROPIC_API_KEY = 'test-key';
+    });
+
+    it('parses the tool input of a message', async () => {
+        mockCreate.mockResolvedValue(responses.anthropic.message);
+        const { raw, parsed } = await replay(createAnthropicProvider());
+
+        expect(parsed).toBe(raw);
+        expect(normalizeActions(resolveActions(parsed))).toEqual({
+            normalized: [
+                { type: 'allocate', bucketId: '3f1c2a4e-8b6d-4c1e-9a2f-6d5b7e8c9a01', amount: 200 },
+                {
+                    type: 'move',
+                    fromBucketId: '7a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c02',
+                    toBucketId: '9c8b7a6d-5e4f-4d3c-a2b1-0f9e8d7c6b03',
+                    amount: 50,
+                },
+            ],
+            warnings: [],
+        });
+        expect(parseProposal(raw)).toMatchObject({
+            summary: 'I\'ll put $200 into Groceries and move $50 from "Dining Out" to Travel.',
+            modelWarnings: ['Dining Out will have $12.40 left this month.'],
+            warnings: [],
+        });
+    });
+
+    it('streams the same summary and actions as the message', async () => {
+        mockCreate.mockResolvedValue(
+            (async function* () {
+                yield* responses.anthropic.stream;
+            })()
+        );
+        const streamed = await replayStream(createAnthropicProvider());
+        const expected = parseProposal(responses.anthropic.message.content[0].input);
+
+        expect(streamed.summary).toBe(expected.summary);
+        expect(streamed.actions).toEqual(responses.anthropic.message.content[0].input.actions);
+        expect(parseProposal(streamed.fullText)).toEqual(expected);
+    });
+});
+
+describe('recorded OpenAI responses', () => {
+    beforeEach(() => {
+        process.env.OPENAI_API_KEY = 'test-key';
+    });
+
+    it('parses function call arguments, renaming snake_case fields and aliased types', async () => {
+        mockFetch(JSON.stringify(responses.openai.completion));
+        const { raw, parsed } = await replay(createOpenAICompatibleProvider());
+
+        expect(typeof raw).toBe('string');
+        const actions = resolveActions(parsed);
+        expect(actions).toHaveLength(3);
+
+        const { normalized, warnings } = normalizeActions(actions);
+        expect(normalized).toEqual([
+            expect.objectContaining({ type: 'create_bucket', name: 'Vacation', targetType: 'goal', targetAmount: 1500 }),
+            {
+                type: 'create_merchant_mapping',
+                merchantContains: 'SPOTIFY',
+                bucketId: '1e2d3c4b-5a69-4788-9a6b-5c4d3e2f1a04',
+            },
+        ]);
+        expect(warnings).toEqual(['Skipped unsupported action type: transfer_to_savings']);
+        expect(parseProposal(raw).summary).toBe(
+            'Created a Vacation bucket with a $1,500 goal and mapped Spotify to Subscriptions.'
+        );
+    });
+
+    it('streams the same summary and actions as the completion', async () => {
+        mockFetch(sseBody(responses.openai.stream));
+        const streamed = await replayStream(createOpenAICompatibleProvider());
+        const recorded = responses.openai.completion.choices[0].message.tool_calls![0].function.arguments;
+
+        expect(streamed.fullText).toBe(recorded);
+        expect(streamed.summary).toBe(parseProposal(recorded).summary);
+        // Every element is reported, supported or not; normalizing happens once the stream ends
+        expect(streamed.actions).toEqual(resolveActions(coerceToolInput(recorded)));
+        expect(parseProposal(streamed.fullText)).toEqual(parseProposal(recorded));
+    });
+
+    it('reads JSON out of a fenced text answer from a model that ignored the tool', async () => {
+        process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1';
+        mockFetch(JSON.stringify(responses.openaiText.completion));
+        const { parsed } = await replay(createOpenAICompatibleProvider());
+
+        expect(parsed.summary).toBe('Deleted the Gym bucket.');
+        expect(normalizeActions(resolveActions(parsed)).normalized).toEqual([
+            { type: 'delete_bucket', bucketId: '7a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c02' },
+        ]);
+    });
+
+    it('streams a fenced text answer, ignoring the fence', async () => {
+        process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1';
+        mockFetch(sseBody(responses.openaiText.stream));
+        const streamed = await replayStream(createOpenAICompatibleProvider());
+
+        expect(streamed.fullText).toBe(responses.openaiText.completion.choices[0].message.content);
+        expect(streamed.summary).toBe('Deleted the Gym bucket.');
+        expect(streamed.actions).toEqual([{ type: 'deleteBucket', bucket_id: '7a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c02' }]);
+        expect(parseProposal(streamed.fullText).actions).toEqual([
+            { type: 'delete_bucket', bucketId: '7a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c02' },
+        ]);
+    });
+});
+
+describe('fixture replay', () => {
+    const proposal = responses.anthropic.message.content[0].input;
+    const fallback = { summary: 'Nothing to change.', actions: [] };
+    // The fallback comes first, so a match has to win on its own
+    const fixtureLines = [
+        JSON.stringify({ response: fallback }),
+        '',
+        JSON.stringify({ match: 'groceries', response: proposal }),
+    ];
+
+    let dir: string;
+    const writeFixtures = (lines: string[]) => {
+        const file = path.join(dir, `fixtures-${Math.random().toString(36).slice(2)}.jsonl`);
+        fs.writeFileSync(file, lines.join('\n'));
+        return file;
+    };
+    const request = (command: string): ProposeActionsRequest => ({
+        ...REQUEST,
+        messages: [{ role: 'user', content: JSON.stringify({ command, context: {} }) }],
+    });
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-fixtures-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('parses JSON Lines, skipping blank lines and naming the bad line', () => {
+        expect(parseFixtures(fixtureLines.join('\n'))).toEqual([
+            { response: fallback },
+            { match: 'groceries', response: proposal },
+        ]);
+        expect(() => parseFixtures(`${fixtureLines[0]}\n{not json`)).toThrow('Fixture line 2 is not valid JSON');
+        expect(() => parseFixtures('{"match":"rent"}')).toThrow('Fixture line 1 has no response');
+    });
+
+    it('prefers a matching fixture over the fallback, ignoring case', () => {
+        const fixtures = parseFixtures(fixtureLines.join('\n'));
+
+        expect(selectFixture(fixtures, 'Put $200 into GROCERIES')?.response).toEqual(proposal);
+        expect(selectFixture(fixtures, 'Pay rent')?.response).toEqual(fallback);
+        expect(selectFixture(fixtures.slice(1), 'Pay rent')).toBeNull();
+    });
+
+    it('replays the matching fixture for the latest command', async () => {
+        const provider = createFixtureProvider(writeFixtures(fixtureLines));
+
+        expect(await provider.proposeActions(request('Put $200 into groceries'))).toEqual(proposal);
+        expect(await provider.proposeActions(request('Pay rent'))).toEqual(fallback);
+    });
+
+    it('streams the same proposal it replays', async () => {
+        const provider = createFixtureProvider(writeFixtures(fixtureLines));
+        const fragments = await collect(
+            provider.streamActions!(request('Put $200 into groceries'), new AbortController().signal)
+        );
+        const streamed = parseStream(fragments);
+        const expected = parseProposal(await provider.proposeActions(request('Put $200 into groceries')));
+
+        expect(fragments.length).toBeGreaterThan(1);
+        expect(streamed.summary).toBe(expected.summary);
+        expect(streamed.actions).toEqual(proposal.actions);
+        expect(parseProposal(streamed.fullText)).toEqual(expected);
+    });
+
+    it('refuses a missing path or an unreadable file', () => {
+        expect(() => createFixtureProvider('')).toThrow(LLMProviderError);
+        expect(() => createFixtureProvider(path.join(dir, 'missing.jsonl'))).toThrow('Cannot read AI fixtures');
+    });
+
+    it('records responses as fixtures that replay them', async () => {
+        const source = createFixtureProvider(writeFixtures(fixtureLines));
+        const recordPath = path.join(dir, 'recorded.jsonl');
+        const recorder = recordingProvider(source, recordPath);
+
+        await recorder.proposeActions(request('Pay rent'));
+        await collect(recorder.streamActions!(request('Put $200 into groceries'), new AbortController().signal));
+
+        expect(parseFixtures(fs.readFileSync(recordPath, 'utf8'))).toEqual([
+            { match: 'Pay rent', response: fallback },
+            { match: 'Put $200 into groceries', response: proposal },
+        ]);
+        const replayed = createFixtureProvider(recordPath);
+        expect(await replayed.proposeActions(request('put $200 into groceries'))).toEqual(proposal);
+    });
+});
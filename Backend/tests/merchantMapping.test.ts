@@ -0,0 +1,144 @@
+import { supabase } from '../src/db/supabase';
+import {
+    applyMerchantMappings,
+    MerchantMappingRule,
+    matchMerchantRule,
+    matchTransactions,
+} from '../src/services/merchantMapping';
+import { FakeSupabase } from './helpers/fakeSupabase';
+import fixtures from './fixtures/merchant-transactions.json';
+
+jest.mock('../src/db/supabase', () => {
+    const { FakeSupabase } = jest.requireActual('./helpers/fakeSupabase');
+    return { ...jest.requireActual('../src/db/supabase'), supabase: new FakeSupabase() };
+});
+
+const db = supabase as unknown as FakeSupabase;
+const USER_ID = 'user-1';
+const rules: MerchantMappingRule[] = fixtures.rules;
+const [starbucks, wholeFoods, amazonFresh, amazon, starbucksReload, shell, amazonRefund, unnamed] =
+    fixtures.transactions;
+
+const ruleFor = (transaction: (typeof fixtures.transactions)[number]) =>
+    matchMerchantRule(transaction, rules)?.id ?? null;
+
+describe('matchMerchantRule', () => {
+    it('matches a contained merchant name regardless of case and padding', () => {
+        expect(ruleFor(starbucks)).toBe('rule-coffee');
+    });
+
+    it('falls back to the description when there is no merchant name', () => {
+        expect(ruleFor(starbucksReload)).toBe('rule-coffee');
+    });
+
+    it('prefers the lowest priority number', () => {
+        expect(ruleFor(amazonFresh)).toBe('rule-amazon-fresh');
+        expect(ruleFor(amazon)).toBe('rule-amazon');
+    });
+
+    it('breaks priority ties by the oldest rule', () => {
+        expect(ruleFor(wholeFoods)).toBe('rule-groceries');
+        expect(ruleFor(wholeFoods)).toBe(matchMerchantRule(wholeFoods, [...rules].reverse())?.id);
+    });
+
+    it('returns null when nothing matches', () => {
+        expect(ruleFor(shell)).toBeNull();
+        expect(ruleFor(unnamed)).toBeNull();
+        expect(matchMerchantRule(starbucks, [])).toBeNull();
+    });
+
+    it('never matches a blank rule', () => {
+        const blank = rules.filter((rule) => rule.id === 'rule-blank');
+        expect(matchMerchantRule(shell, blank)).toBeNull();
+    });
+});
+
+describe('matchTransactions', () => {
+    it('maps spending only, into the whole amount', () => {
+        expect(matchTransactions(fixtures.transactions, rules)).toEqual([
+            { transaction_id: starbucks.id, rule_id: 'rule-coffee', bucket_id: 'bucket-coffee', amount: -5.75 },
+            { transaction_id: wholeFoods.id, rule_id: 'rule-groceries', bucket_id: 'bucket-groceries', amount: -84.12 },
+            {
+                transaction_id: amazonFresh.id,
+                rule_id: 'rule-amazon-fresh',
+                bucket_id: 'bucket-groceries',
+                amount: -63.4,
+            },
+            { transaction_id: amazon.id, rule_id: 'rule-amazon', bucket_id: 'bucket-shopping', amount: -22.99 },
+            { transaction_id: starbucksReload.id, rule_id: 'rule-coffee', bucket_id: 'bucket-coffee', amount: -25 },
+        ]);
+        // The refund matches a rule, but income stays unassigned
+        expect(ruleFor(amazonRefund)).toBe('rule-amazon');
+    });
+});
+
+describe('applyMerchantMappings', () => {
+    beforeEach(() => {
+        db.tables = {};
+        db.seed(
+            'buckets',
+            ['bucket-coffee', 'bucket-groceries', 'bucket-shopping', 'bucket-dining'].map((id) => ({
+                id,
+                user_id: USER_ID,
+            }))
+        );
+        db.seed(
+            'merchant_mapping_rules',
+            rules.map((rule) => ({ ...rule, user_id: USER_ID }))
+        );
+    });
+
+    const splitEvents = () => db.table('events').filter((event) => event.event_type === 'transaction_split_set');
+
+    it('appends one transaction_split_set event per matched transaction', async () => {
+        const matches = await applyMerchantMappings(USER_ID, fixtures.transactions);
+
+        expect(matches).toHaveLength(5);
+        expect(splitEvents().map((event) => event.client_event_id)).toEqual(
+            matches.map((match) => `merchant-mapping:${match.transaction_id}`)
+        );
+        expect(splitEvents()[0].payload).toEqual({
+            transactionId: starbucks.id,
+            splits: [{ id: expect.any(String), bucketId: 'bucket-coffee', amount: -5.75 }],
+        });
+    });
+
+    it('maps each transaction at most once when it is imported again', async () => {
+        await applyMerchantMappings(USER_ID, fixtures.transactions);
+        const [first] = splitEvents();
+
+        // A rule added before the re-import would now win, but the first mapping stands
+        db.seed('merchant_mapping_rules', [
+            {
+                id: 'rule-coffee-first',
+                user_id: USER_ID,
+                merchant_contains: 'starbucks',
+                bucket_id: 'bucket-dining',
+                priority: 0,
+                created_at: '2026-02-01T09:00:00.000Z',
+            },
+        ]);
+        await applyMerchantMappings(USER_ID, fixtures.transactions);
+
+        expect(splitEvents()).toHaveLength(5);
+        expect(splitEvents()[0]).toEqual(first);
+    });
+
+    it('leaves transactions that already have splits alone', async () => {
+        db.seed('transaction_splits', [{ transaction_id: starbucks.id, bucket_id: 'bucket-dining', amount: -5.75 }]);
+
+        const matches = await applyMerchantMappings(USER_ID, [starbucks, wholeFoods]);
+
+        expect(matches.map((match) => match.transaction_id)).toEqual([wholeFoods.id]);
+        expect(splitEvents().map((event) => event.client_event_id)).toEqual([`merchant-mapping:${wholeFoods.id}`]);
+    });
+
+    it('ignores rules whose bucket was deleted', async () => {
+        db.tables.buckets = db.table('buckets').filter((bucket) => bucket.id !== 'bucket-coffee');
+
+        const matches = await applyMerchantMappings(USER_ID, [starbucks]);
+
+        expect(matches).toEqual([]);
+        expect(splitEvents()).toEqual([]);
+    });
+});
@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { JWKPublicKey } from 'plaid';
+import { supabase } from '../src/db/supabase';
+import plaidWebhookRouter from '../src/routes/plaidWebhook';
+import { plaidClient } from '../src/services/plaid';
+import { verifyPlaidWebhook, WebhookVerificationError } from '../src/services/plaidWebhook';
+import { syncItemTransactions } from '../src/services/transactionIngestion';
+import webhooks from './fixtures/plaid-webhooks.json';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+jest.mock('../src/db/supabase', () => {
+    const { FakeSupabase } = jest.requireActual('./helpers/fakeSupabase');
+    return { ...jest.requireActual('../src/db/supabase'), supabase: new FakeSupabase() };
+});
+jest.mock('../src/services/transactionIngestion', () => ({
+    syncItemTransactions: jest.fn().mockResolvedValue(undefined),
+}));
+
+const db = supabase as unknown as FakeSupabase;
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const nowSeconds = NOW.getTime() / 1000;
+
+function generateKey(kid: string) {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const { crv, x, y } = publicKey.export({ format: 'jwk' });
+    const jwk: JWKPublicKey = {
+        alg: 'ES256',
+        crv: crv!,
+        kid,
+        kty: 'EC',
+        use: 'sig',
+        x: x!,
+        y: y!,
+        created_at: nowSeconds - 86400,
+        expired_at: null,
+    };
+    return { privateKey, jwk };
+}
+
+const signingKey = generateKey('key-1');
+const otherKey = generateKey('key-2');
+const keys = new Map([signingKey, otherKey].map((key) => [key.jwk.kid, key.jwk]));
+
+async function getKey(kid: string): Promise<JWKPublicKey> {
+    const jwk = keys.get(kid);
+    if (!jwk) {
+        throw new WebhookVerificationError(`Unknown verification key ${kid}`);
+    }
+    return jwk;
+}
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * Signs a body the way Plaid does: an ES256 JWT whose payload carries the
+ * body's SHA-256 and the issue time
+ */
+function sign(
+    body: string,
+    { kid = 'key-1', privateKey = signingKey.privateKey, iat = nowSeconds } = {}
+): string {
+    const header = encode({ alg: 'ES256', kid, typ: 'JWT' });
+    const payload = encode({
+        iat,
+        request_body_sha256: crypto.createHash('sha256').update(body).digest('hex'),
+    });
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), {
+        key: privateKey,
+        dsaEncoding: 'ieee-p1363',
+    });
+    return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+// Plaid sends pretty-printed bodies; the hash covers the exact bytes
+const body = JSON.stringify(webhooks.syncUpdatesAvailable, null, 2);
+
+describe('verifyPlaidWebhook', () => {
+    it('accepts a correctly signed webhook', async () => {
+        await expect(verifyPlaidWebhook(Buffer.from(body), sign(body), getKey, NOW)).resolves.toBeUndefined();
+    });
+
+    it('accepts every fixture payload', async () => {
+        for (const fixture of Object.values(webhooks)) {
+            const fixtureBody = JSON.stringify(fixture);
+            await expect(verifyPlaidWebhook(fixtureBody, sign(fixtureBody), getKey, NOW)).resolves.toBeUndefined();
+        }
+    });
+
+    it('rejects a tampered body', async () => {
+        const tampered = body.replace('SYNC_UPDATES_AVAILABLE', 'DEFAULT_UPDATE');
+        await expect(verifyPlaidWebhook(tampered, sign(body), getKey, NOW)).rejects.toThrow(
+            'Webhook body does not match signature'
+        );
+    });
+
+    it('rejects a tampered token payload', async () => {
+        const [header, , signature] = sign(body).split('.');
+        const forged = encode({ iat: nowSeconds, request_body_sha256: 'x'.repeat(64) });
+        await expect(verifyPlaidWebhook(body, `${header}.${forged}.${signature}`, getKey, NOW)).rejects.toThrow(
+            'Invalid webhook signature'
+        );
+    });
+
+    it('rejects a token naming another key than the one that signed it', async () => {
+        await expect(verifyPlaidWebhook(body, sign(body, { kid: 'key-2' }), getKey, NOW)).rejects.toThrow(
+            'Invalid webhook signature'
+        );
+    });
+
+    it('rejects a token naming an unknown key', async () => {
+        await expect(verifyPlaidWebhook(body, sign(body, { kid: 'key-9' }), getKey, NOW)).rejects.toThrow(
+            WebhookVerificationError
+        );
+    });
+
+    it('rejects a key Plaid has expired', async () => {
+        const expiredKey = async (kid: string) => ({ ...(await getKey(kid)), expired_at: nowSeconds - 60 });
+        await expect(verifyPlaidWebhook(body, sign(body), expiredKey, NOW)).rejects.toThrow(
+            'Verification key has expired'
+        );
+    });
+
+    it('rejects an expired webhook', async () => {
+        await expect(verifyPlaidWebhook(body, sign(body, { iat: nowSeconds - 6 * 60 }), getKey, NOW)).rejects.toThrow(
+            'Webhook is too old'
+        );
+    });
+
+    it('accepts a webhook issued slightly in the future, within clock skew', async () => {
+        await expect(verifyPlaidWebhook(body, sign(body, { iat: nowSeconds + 10 }), getKey, NOW)).resolves.toBeUndefined();
+    });
+
+    it('rejects a webhook issued in the future', async () => {
+        await expect(verifyPlaidWebhook(body, sign(body, { iat: nowSeconds + 3600 }), getKey, NOW)).rejects.toThrow(
+            'Webhook was issued in the future'
+        );
+    });
+
+    it('rejects a missing or malformed token', async () => {
+        await expect(verifyPlaidWebhook(body, undefined, getKey, NOW)).rejects.toThrow('Missing Plaid-Verification header');
+        await expect(verifyPlaidWebhook(body, 'not-a-jwt', getKey, NOW)).rejects.toThrow('Malformed verification token');
+    });
+});
+
+describe('POST /plaid/webhook', () => {
+    const ITEM_ID = webhooks.syncUpdatesAvailable.item_id;
+    let baseUrl = '';
+    let server: ReturnType<express.Express['listen']>;
+    let keyLookups: jest.SpyInstance;
+
+    beforeAll(async () => {
+        const app = express();
+        // As server.ts parses it, keeping the raw body for verification
+        app.use(
+            express.json({
+                verify: (req, _res, buf) => {
+                    (req as express.Request).rawBody = buf;
+                },
+            })
+        );
+        app.use('/plaid/webhook', plaidWebhookRouter);
+        server = app.listen(0);
+        await new Promise((resolve) => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        db.tables = {};
+        db.seed('plaid_items', [
+            {
+                user_id: 'user-1',
+                item_id: ITEM_ID,
+                access_token_encrypted: 'access-sandbox-token',
+                status: 'healthy',
+                error_code: null,
+            },
+        ]);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        keyLookups = jest.spyOn(plaidClient, 'webhookVerificationKeyGet').mockImplementation(async (request) => {
+            const jwk = keys.get(request.key_id);
+            if (!jwk) {
+                throw new Error('Request failed with status code 400');
+            }
+            return { data: { key: jwk, request_id: 'req-1' } } as any;
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        (syncItemTransactions as jest.Mock).mockClear();
+    });
+
+    /** Posts a fixture as Plaid does: compact JSON, signed now */
+    async function deliver(fixture: object, options: Parameters<typeof sign>[1] = {}) {
+        const fixtureBody = JSON.stringify(fixture);
+        const iat = Math.floor(Date.now() / 1000);
+        const response = await fetch(`${baseUrl}/plaid/webhook`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Plaid-Verification': sign(fixtureBody, { iat, ...options }),
+            },
+            body: fixtureBody,
+        });
+        return { status: response.status, body: (await response.json()) as Record<string, any> };
+    }
+
+    const storedItem = () => db.table('plaid_items')[0];
+
+    it('starts a sync for SYNC_UPDATES_AVAILABLE', async () => {
+        const response = await deliver(webhooks.syncUpdatesAvailable);
+
+        expect(response).toEqual({ status: 200, body: { received: true, result: 'sync_started' } });
+        expect(syncItemTransactions).toHaveBeenCalledWith(expect.objectContaining({ item_id: ITEM_ID }));
+    });
+
+    it('marks the item login_required for ITEM.ERROR with ITEM_LOGIN_REQUIRED', async () => {
+        const response = await deliver(webhooks.itemError);
+
+        expect(response.body.result).toBe('status_updated');
+        expect(storedItem()).toMatchObject({ status: 'login_required', error_code: 'ITEM_LOGIN_REQUIRED' });
+        expect(syncItemTransactions).not.toHaveBeenCalled();
+    });
+
+    it('marks the item login_required for ITEM_LOGIN_REQUIRED', async () => {
+        await deliver(webhooks.itemLoginRequired);
+        expect(storedItem()).toMatchObject({ status: 'login_required', error_code: 'ITEM_LOGIN_REQUIRED' });
+    });
+
+    it('marks the item revoked for USER_PERMISSION_REVOKED', async () => {
+        await deliver(webhooks.userPermissionRevoked);
+        expect(storedItem()).toMatchObject({ status: 'revoked', error_code: 'USER_PERMISSION_REVOKED' });
+    });
+
+    it('marks the item login_required and records the consent expiry for PENDING_EXPIRATION', async () => {
+        await deliver(webhooks.pendingExpiration);
+        expect(storedItem()).toMatchObject({
+            status: 'login_required',
+            error_code: 'PENDING_EXPIRATION',
+            consent_expires_at: webhooks.pendingExpiration.consent_expiration_time,
+        });
+    });
+
+    it('leaves a removed item alone', async () => {
+        storedItem().status = 'removed';
+        const response = await deliver(webhooks.itemError);
+
+        expect(response.body.result).toBe('ignored');
+        expect(storedItem().status).toBe('removed');
+    });
+
+    it('rejects a bad signature with 401 without touching the item', async () => {
+        const response = await deliver(webhooks.itemError, { privateKey: otherKey.privateKey });
+
+        expect(response.status).toBe(401);
+        expect(storedItem().status).toBe('healthy');
+    });
+
+    it('rejects a key id Plaid does not know with 401, and does not ask Plaid again for a while', async () => {
+        const first = await deliver(webhooks.itemError, { kid: 'forged-key' });
+        const second = await deliver(webhooks.itemError, { kid: 'forged-key' });
+
+        expect([first.status, second.status]).toEqual([401, 401]);
+        expect(keyLookups.mock.calls.filter(([request]) => request.key_id === 'forged-key')).toHaveLength(1);
+        expect(storedItem().status).toBe('healthy');
+    });
+});
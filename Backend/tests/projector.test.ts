@@ -0,0 +1,97 @@
+import { supabase } from '../src/db/supabase';
+import { projectUserEvents } from '../src/services/projector';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+jest.mock('../src/db/supabase', () => {
+    const { FakeSupabase } = jest.requireActual('./helpers/fakeSupabase');
+    return { ...jest.requireActual('../src/db/supabase'), supabase: new FakeSupabase() };
+});
+
+const db = supabase as unknown as FakeSupabase;
+const ALICE = 'user-alice';
+const MALLORY = 'user-mallory';
+const BUCKET_ID = '5b0f7c1e-4a7d-4c8e-9a53-0b6a4e2f9d10';
+const TIMESTAMP = '2026-03-01T12:00:00.000Z';
+
+function storeEvent(userId: string, eventType: string, payload: Record<string, unknown>) {
+    const [event] = db.seed('events', [
+        { user_id: userId, event_type: eventType, payload, timestamp: TIMESTAMP, device_id: null },
+    ]);
+    return event;
+}
+
+const checkpoint = (userId: string) =>
+    db.table('projection_checkpoints').find((row) => row.user_id === userId)?.last_sequence ?? 0;
+
+beforeEach(() => {
+    db.tables = {};
+    db.failing = {};
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('projectUserEvents', () => {
+    it('rejects an event that reuses an id owned by another user and records it', async () => {
+        storeEvent(ALICE, 'bucket_created', { id: BUCKET_ID, name: 'Rent' });
+        await projectUserEvents(ALICE);
+
+        const hijack = storeEvent(MALLORY, 'bucket_created', { id: BUCKET_ID, name: 'Mine now' });
+        const result = await projectUserEvents(MALLORY);
+
+        expect(db.table('buckets')).toEqual([expect.objectContaining({ id: BUCKET_ID, user_id: ALICE, name: 'Rent' })]);
+        expect(result.applied).toBe(0);
+        expect(result.rejected).toEqual([
+            expect.objectContaining({ event_id: hijack.id, sequence: hijack.sequence, event_type: 'bucket_created' }),
+        ]);
+        expect(db.table('projection_failures')).toEqual([
+            expect.objectContaining({ user_id: MALLORY, event_id: hijack.id }),
+        ]);
+        // Recorded, so the projection moves on
+        expect(checkpoint(MALLORY)).toBe(hijack.sequence);
+    });
+
+    it("rejects moving money in another user's bucket", async () => {
+        storeEvent(ALICE, 'bucket_created', { id: BUCKET_ID, name: 'Rent' });
+        await projectUserEvents(ALICE);
+
+        const drain = storeEvent(MALLORY, 'allocation_made', {
+            id: '9d3e6a2b-1c4f-4e8a-b7d5-2f6c8a0e1b33',
+            bucketId: BUCKET_ID,
+            amount: -500,
+            sourceType: 'manual',
+        });
+        const result = await projectUserEvents(MALLORY);
+
+        expect(result.rejected).toEqual([expect.objectContaining({ event_id: drain.id })]);
+        expect(db.table('allocation_events')).toEqual([]);
+    });
+
+    it("leaves the owner's row alone when an event is applied again", async () => {
+        storeEvent(ALICE, 'bucket_created', { id: BUCKET_ID, name: 'Rent' });
+        storeEvent(ALICE, 'bucket_updated', { id: BUCKET_ID, name: 'Housing' });
+        storeEvent(ALICE, 'bucket_created', { id: BUCKET_ID, name: 'Rent' });
+
+        const result = await projectUserEvents(ALICE);
+
+        expect(result.rejected).toEqual([]);
+        expect(db.table('buckets')).toEqual([expect.objectContaining({ id: BUCKET_ID, name: 'Housing' })]);
+    });
+
+    it('stops at an event that fails for another reason and retries it on the next run', async () => {
+        const first = storeEvent(ALICE, 'rule_created', { id: 'rule-1', name: 'Payday' });
+        storeEvent(ALICE, 'bucket_created', { id: BUCKET_ID, name: 'Rent' });
+
+        db.failing.buckets = { message: 'connection reset' };
+        await expect(projectUserEvents(ALICE)).rejects.toMatchObject({ message: 'connection reset' });
+        expect(checkpoint(ALICE)).toBe(first.sequence);
+        expect(db.table('projection_failures')).toEqual([]);
+
+        delete db.failing.buckets;
+        const result = await projectUserEvents(ALICE);
+        expect(result.applied).toBe(1);
+        expect(db.table('buckets')).toEqual([expect.objectContaining({ id: BUCKET_ID, user_id: ALICE })]);
+    });
+});
@@ -0,0 +1,76 @@
+import { supabase } from '../src/db/supabase';
+import { ProposedAllocation, runRules } from '../src/services/rulesEngine';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+jest.mock('../src/db/supabase', () => {
+    const { FakeSupabase } = jest.requireActual('./helpers/fakeSupabase');
+    return { ...jest.requireActual('../src/db/supabase'), supabase: new FakeSupabase() };
+});
+
+const db = supabase as unknown as FakeSupabase;
+const USER_ID = 'user-1';
+
+const proposal = (bucketId: string, amount: number): ProposedAllocation => ({
+    rule_id: 'rule-1',
+    rule_name: 'Payday',
+    bucket_id: bucketId,
+    bucket_name: bucketId,
+    amount,
+});
+
+const allocationEvents = () => db.table('events').filter((event) => event.event_type === 'allocation_made');
+
+beforeEach(() => {
+    db.tables = {};
+});
+
+describe('runRules', () => {
+    it('returns the first result on retry without evaluating the rules again', async () => {
+        const evaluate = jest
+            .fn()
+            .mockResolvedValueOnce({ availableFunds: 300, proposals: [proposal('groceries', 200)] })
+            // Balances changed by the time of the retry
+            .mockResolvedValueOnce({ availableFunds: 100, proposals: [proposal('rent', 50), proposal('fun', 50)] });
+
+        const first = await runRules(USER_ID, evaluate, 'payday-2026-03');
+        const retry = await runRules(USER_ID, evaluate, 'payday-2026-03');
+
+        expect(evaluate).toHaveBeenCalledTimes(1);
+        expect(retry).toEqual(first);
+        expect(first.total).toBe(200);
+        expect(allocationEvents().map((event) => event.payload)).toEqual(first.allocations);
+    });
+
+    it('appends the stored allocations a failed first request did not', async () => {
+        const evaluate = jest.fn().mockResolvedValue({
+            availableFunds: 300,
+            proposals: [proposal('groceries', 200), proposal('rent', 100)],
+        });
+
+        db.failing.events = { message: 'connection reset' };
+        await expect(runRules(USER_ID, evaluate, 'payday-2026-03')).rejects.toMatchObject({
+            message: 'connection reset',
+        });
+        expect(allocationEvents()).toEqual([]);
+
+        delete db.failing.events;
+        const retry = await runRules(USER_ID, evaluate, 'payday-2026-03');
+
+        expect(evaluate).toHaveBeenCalledTimes(1);
+        expect(allocationEvents().map((event) => event.client_event_id)).toEqual([
+            'payday-2026-03:0',
+            'payday-2026-03:1',
+        ]);
+        expect(allocationEvents().map((event) => event.payload)).toEqual(retry.allocations);
+    });
+
+    it('evaluates every request without a key', async () => {
+        const evaluate = jest.fn().mockResolvedValue({ availableFunds: 300, proposals: [proposal('groceries', 200)] });
+
+        await runRules(USER_ID, evaluate);
+        await runRules(USER_ID, evaluate);
+
+        expect(evaluate).toHaveBeenCalledTimes(2);
+        expect(allocationEvents()).toHaveLength(2);
+    });
+});
@@ -0,0 +1,9 @@
+/**
+ * Test Environment
+ * Modules read their configuration on import; tests never reach these services
+ */
+
+process.env.SUPABASE_URL ??= 'http://localhost:54321';
+process.env.SUPABASE_KEY ??= 'test-key';
+process.env.PLAID_CLIENT_ID ??= 'test-client';
+process.env.PLAID_SECRET ??= 'test-secret';
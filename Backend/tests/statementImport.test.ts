@@ -0,0 +1,44 @@
+import { parseAmount, parseCsvStatement, parseOfxStatement } from '../src/services/statementImport';
+
+const ofx = (amount: string) => `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260301<TRNAMT>${amount}<FITID>1<NAME>BAKERY
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+describe('parseAmount', () => {
+    it.each([
+        ['12.50', 12.5],
+        ['-$12.00', -12],
+        ['(12.00)', -12],
+        ['12.00-', -12],
+        ['1,234.56', 1234.56],
+        ['-1,234,567.89', -1234567.89],
+    ])('parses %s', (value, expected) => {
+        expect(parseAmount(value)).toBe(expected);
+    });
+
+    it.each(['12,50', '1,234', '1.234,56', '12,5.00', 'abc'])('refuses the ambiguous or malformed %s', (value) => {
+        expect(parseAmount(value)).toBeNull();
+    });
+
+    it('reads a lone comma as the decimal separator when asked', () => {
+        expect(parseAmount('-12,50', true)).toBe(-12.5);
+        expect(parseAmount('1,234.56', true)).toBeNull();
+    });
+});
+
+describe('parseOfxStatement', () => {
+    it('reads a comma decimal TRNAMT', () => {
+        expect(parseOfxStatement(ofx('-12,50')).rows).toEqual([expect.objectContaining({ amount: -12.5 })]);
+    });
+});
+
+describe('parseCsvStatement', () => {
+    it('reports an ambiguous amount instead of guessing', () => {
+        const csv = ['Date,Description,Amount', '2026-03-01,Bakery,"-12,50"', '2026-03-02,Rent,"-1,200.00"'].join('\n');
+        const result = parseCsvStatement(csv, { date: 'Date', description: 'Description', amount: 'Amount' });
+
+        expect(result.rows).toEqual([expect.objectContaining({ line: 3, amount: -1200 })]);
+        expect(result.errors).toEqual([{ line: 2, message: expect.stringContaining('Ambiguous amount') }]);
+    });
+});
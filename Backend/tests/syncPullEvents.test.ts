@@ -0,0 +1,101 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { supabase } from '../src/db/supabase';
+import syncRouter from '../src/routes/sync';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+jest.mock('../src/db/supabase', () => {
+    const { FakeSupabase } = jest.requireActual('./helpers/fakeSupabase');
+    return { ...jest.requireActual('../src/db/supabase'), supabase: new FakeSupabase() };
+});
+
+const db = supabase as unknown as FakeSupabase;
+const USER_ID = 'user-1';
+const START = new Date('2026-03-01T12:00:00Z').getTime();
+
+let baseUrl = '';
+let server: ReturnType<express.Express['listen']>;
+
+beforeAll(async () => {
+    const app = express();
+    app.use((req, _res, next) => {
+        req.userId = USER_ID;
+        next();
+    });
+    app.use('/sync', syncRouter);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+    db.tables = {};
+});
+
+/**
+ * Stores an event the way pushEvents does; `timestamp` is the client's clock.
+ * The fake gives it the next sequence as it commits, as the events trigger does.
+ */
+function storeEvent(clientEventId: string, timestamp: string) {
+    db.seed('events', [
+        {
+            user_id: USER_ID,
+            client_event_id: clientEventId,
+            event_type: 'allocation_created',
+            payload: { allocationId: clientEventId },
+            timestamp,
+        },
+    ]);
+}
+
+async function pull(sinceSequence: number) {
+    const response = await fetch(`${baseUrl}/sync/pullEvents?sinceSequence=${sinceSequence}`);
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as {
+        events: Array<{ client_event_id: string; sequence: number }>;
+        hasMore: boolean;
+        nextCursor: { sequence: number };
+    };
+    return { ...body, ids: body.events.map((event) => event.client_event_id) };
+}
+
+describe('GET /sync/pullEvents', () => {
+    it('returns an offline event with an old timestamp on the pull after the page it missed', async () => {
+        storeEvent('a', new Date(START).toISOString());
+        storeEvent('b', new Date(START).toISOString());
+
+        const first = await pull(0);
+        expect(first.ids).toEqual(['a', 'b']);
+
+        // A device that was offline for a day pushes an event it made back then
+        storeEvent('offline', new Date(START - 86_400_000).toISOString());
+
+        const second = await pull(first.nextCursor.sequence);
+        expect(second.ids).toEqual(['offline']);
+        expect(second.nextCursor.sequence).toBeGreaterThan(first.nextCursor.sequence);
+    });
+
+    it('pages in sequence order regardless of client timestamps', async () => {
+        storeEvent('a', new Date(START).toISOString());
+        storeEvent('offline', new Date(START - 86_400_000).toISOString());
+        storeEvent('b', new Date(START + 1000).toISOString());
+
+        const first = await pull(0);
+        expect(first.ids).toEqual(['a', 'offline', 'b']);
+        expect(first.hasMore).toBe(false);
+
+        const empty = await pull(first.nextCursor.sequence);
+        expect(empty.ids).toEqual([]);
+        // The cursor stays put, so nothing committed later is skipped
+        expect(empty.nextCursor.sequence).toBe(first.nextCursor.sequence);
+    });
+
+    it('rejects a malformed cursor', async () => {
+        const response = await fetch(`${baseUrl}/sync/pullEvents?sinceSequence=-1`);
+        expect(response.status).toBe(400);
+    });
+});
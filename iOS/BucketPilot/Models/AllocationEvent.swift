@@ -37,4 +37,7 @@ enum SourceType: String, Codable {
     case manual
     case rule
     case import_
+    case rollover // month close: capped-rollover sweep or overspend cover
+    case reset // month close: resetMonthly sweep
+    case ai // accepted AI copilot action
 }
@@ -7,6 +7,13 @@ final class SyncService {
         let pushed: Int
         let pulled: Int
         let applied: Int
+        let rejected: [RejectedEvent]
+    }
+    
+    /// A pushed event the server refused; it stays unsynced on the device
+    struct RejectedEvent {
+        let eventId: String
+        let reason: String
     }
     
     private let modelContext: ModelContext
@@ -48,7 +55,7 @@ final class SyncService {
     }
     
     func sync() async throws -> SyncSummary {
-        let pushed = try await pushAllocationEvents()
+        let (pushed, rejected) = try await pushAllocationEvents()
         let pullResponse = try await pullEvents()
         let applied = try apply(events: pullResponse.events)
         try updateCursor(from: pullResponse.nextCursor)
@@ -56,24 +63,28 @@ final class SyncService {
         return SyncSummary(
             pushed: pushed,
             pulled: pullResponse.events.count,
-            applied: applied
+            applied: applied,
+            rejected: rejected
         )
     }
     
     // MARK: - Push
     
-    private func pushAllocationEvents() async throws -> Int {
+    /// Pushes unsynced events and marks those the server stored (or already had)
+    /// as synced. Rejected events stay unsynced and are returned with the reason.
+    private func pushAllocationEvents() async throws -> (pushed: Int, rejected: [RejectedEvent]) {
         let descriptor = FetchDescriptor<AllocationEvent>(
             predicate: #Predicate { $0.synced == false }
         )
         let events = try modelContext.fetch(descriptor)
         
         guard !events.isEmpty else {
-            return 0
+            return (0, [])
         }
         
         let pushEvents = events.map { event in
             SyncPushEvent(
+                eventId: event.id.uuidString,
                 eventType: "allocation",
                 timestamp: event.timestamp,
                 payload: allocationPayload(for: event),
@@ -82,17 +93,37 @@ final class SyncService {
         }
         
         let request = SyncPushRequest(events: pushEvents)
-        _ = try await sendRequest(
+        let response = try await sendRequest(
             path: "sync/pushEvents",
             method: "POST",
             body: request,
             responseType: SyncPushResponse.self
         )
         
-        events.forEach { $0.synced = true }
+        var stored = Set<String>()
+        var rejected: [RejectedEvent] = []
+        for result in response.results {
+            switch result.status {
+            case "accepted", "duplicate":
+                if let eventId = result.eventId {
+                    stored.insert(eventId)
+                }
+            default:
+                rejected.append(RejectedEvent(
+                    eventId: result.eventId ?? "unknown",
+                    reason: result.reason ?? "Rejected by server"
+                ))
+            }
+        }
+        
+        var pushed = 0
+        for event in events where stored.contains(event.id.uuidString) {
+            event.synced = true
+            pushed += 1
+        }
         try modelContext.save()
         
-        return events.count
+        return (pushed, rejected)
     }
     
     // MARK: - Pull
@@ -101,9 +132,7 @@ final class SyncService {
         let state = try loadSyncState()
         var queryItems: [URLQueryItem] = []
         
-        if let lastTimestamp = state.lastSyncTimestamp {
-            let timestamp = SyncService.makeISO8601WithFractional().string(from: lastTimestamp)
-            queryItems.append(URLQueryItem(name: "sinceTimestamp", value: timestamp))
+        if state.lastSyncSequence > 0 {
             queryItems.append(URLQueryItem(name: "sinceSequence", value: String(state.lastSyncSequence)))
         }
         
@@ -187,7 +216,7 @@ final class SyncService {
     
     private func updateCursor(from cursor: SyncCursor) throws {
         let state = try loadSyncState()
-        state.lastSyncTimestamp = cursor.timestamp
+        state.lastSyncTimestamp = Date()
         state.lastSyncSequence = cursor.sequence
         state.backendUrl = baseURL.absoluteString
         try modelContext.save()
@@ -310,6 +339,7 @@ private struct SyncPushRequest: Codable {
 private struct EmptyRequestBody: Encodable {}
 
 private struct SyncPushEvent: Codable {
+    let eventId: String // Stable across retries so the server can dedupe
     let eventType: String
     let timestamp: Date
     let payload: [String: JSONValue]
@@ -319,6 +349,13 @@ private struct SyncPushEvent: Codable {
 private struct SyncPushResponse: Codable {
     let success: Bool
     let events: [SyncEvent]
+    let results: [SyncPushResult]
+}
+
+private struct SyncPushResult: Codable {
+    let eventId: String?
+    let status: String // "accepted", "duplicate" or "rejected"
+    let reason: String?
 }
 
 private struct SyncPullResponse: Codable {
@@ -328,7 +365,6 @@ private struct SyncPullResponse: Codable {
 }
 
 private struct SyncCursor: Codable {
-    let timestamp: Date
     let sequence: Int64
 }
 
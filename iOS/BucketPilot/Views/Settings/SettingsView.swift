@@ -150,7 +150,11 @@ struct SettingsView: View {
                 let summary = try await service.sync()
                 await MainActor.run {
                     isSyncing = false
-                    syncStatusMessage = "Sync complete: pushed \(summary.pushed), pulled \(summary.pulled), applied \(summary.applied)"
+                    var message = "Sync complete: pushed \(summary.pushed), pulled \(summary.pulled), applied \(summary.applied)"
+                    if let first = summary.rejected.first {
+                        message += "\n\(summary.rejected.count) change(s) rejected by the server and kept on this device: \(first.reason)"
+                    }
+                    syncStatusMessage = message
                 }
             } catch {
                 await MainActor.run {